@@ -2,4 +2,6 @@
  * Actions module exports
  */
 export * from "./validate.js";
+export * from "./legal.js";
+export * from "./warnings.js";
 
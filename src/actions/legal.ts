@@ -0,0 +1,98 @@
+/**
+ * @quantaris/engine - Legal Action Generation
+ *
+ * Enumerates the actions validatePlayerActions would accept, for UIs and bots.
+ * Every candidate is checked with validateAction, so the two never disagree.
+ */
+
+import type { Action, GameState, PlayerId, Quantar } from "../core/types.js";
+import {
+  ActionType,
+  GamePhase,
+  ALL_DIRECTIONS,
+  ALL_PULSE_DIRECTIONS,
+  TERRAIN_PROPERTIES,
+} from "../core/types.js";
+import { getQuantar, getPlayerQuantars, getTerrainAt, positionsEqual } from "../core/state.js";
+import { getRules } from "../core/rules.js";
+import { validateAction, applyDirection } from "./validate.js";
+
+export interface LegalActionOptions {
+  /**
+   * Leave out moves resolution is guaranteed to block: into a Core or into
+   * terrain that blocks movement. They are legal, but never do anything.
+   */
+  readonly pruneBlockedMoves?: boolean;
+}
+
+/**
+ * Check if a move can never succeed, whatever the opponent does
+ */
+function isMoveAlwaysBlocked(state: GameState, quantar: Quantar, action: Action): boolean {
+  if (action.type !== ActionType.Move) {
+    return false;
+  }
+  const target = applyDirection(quantar.position, action.direction);
+  if (positionsEqual(target, state.cores.A.position) || positionsEqual(target, state.cores.B.position)) {
+    return true;
+  }
+  const terrain = getTerrainAt(state, target);
+  return terrain !== null && TERRAIN_PROPERTIES[terrain.type].blocksMovement;
+}
+
+/**
+ * Get every legal action for a single Quantar.
+ *
+ * Order is stable: moves (N, E, S, W), pulses (N, E, S, W, NE, NW, SE, SW),
+ * then shield. Returns an empty list for unknown or dead Quantars, and
+ * once the game has ended.
+ */
+export function getLegalActions(
+  state: GameState,
+  quantarId: string,
+  options: LegalActionOptions = {}
+): Action[] {
+  const quantar = getQuantar(state, quantarId);
+  if (!quantar || state.phase !== GamePhase.Playing) {
+    return [];
+  }
+
+  const rules = getRules(state);
+  const candidates: Action[] = [
+    ...ALL_DIRECTIONS.map((direction): Action => ({ type: ActionType.Move, quantarId, direction })),
+    ...ALL_PULSE_DIRECTIONS.map((direction): Action => ({ type: ActionType.Pulse, quantarId, direction })),
+    { type: ActionType.Shield, quantarId },
+  ];
+
+  return candidates.filter(
+    (action) =>
+      validateAction(state, action, quantar.owner, rules).valid &&
+      !(options.pruneBlockedMoves && isMoveAlwaysBlocked(state, quantar, action))
+  );
+}
+
+/**
+ * Enumerate every legal turn for a player: the cartesian product of each
+ * living Quantar's legal actions, in roster order.
+ *
+ * With the default rules this is at most 13^3 = 2197 turns.
+ */
+export function enumerateLegalTurns(
+  state: GameState,
+  playerId: PlayerId,
+  options: LegalActionOptions = {}
+): Action[][] {
+  if (state.phase !== GamePhase.Playing) {
+    return [];
+  }
+
+  const perQuantar = getPlayerQuantars(state, playerId)
+    .filter((q) => q.hp > 0)
+    .map((q) => getLegalActions(state, q.id, options));
+
+  let turns: Action[][] = [[]];
+  for (const choices of perQuantar) {
+    turns = turns.flatMap((turn) => choices.map((action) => [...turn, action]));
+  }
+  return turns;
+}
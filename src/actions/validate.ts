@@ -6,6 +6,7 @@
 
 import type {
   Action,
+  GameRules,
   GameState,
   PlayerId,
   Position,
@@ -20,6 +21,7 @@ import {
   DIAGONAL_DIRECTIONS,
 } from "../core/types.js";
 import { getQuantar, getPlayerQuantars, isInBounds } from "../core/state.js";
+import { getRules } from "../core/rules.js";
 
 // ============================================================================
 // Validation Result Types
@@ -33,10 +35,20 @@ export interface ValidationError {
   readonly valid: false;
   readonly error: string;
   readonly code: ValidationErrorCode;
+  /** Quantar the offending action names (turn validation only) */
+  readonly quantarId?: string;
+  /** Index of the offending action in the submitted list (turn validation only) */
+  readonly actionIndex?: number;
 }
 
 export type ValidationResult = ValidationSuccess | ValidationError;
 
+/** Every problem with a player's turn, for highlighting all of them at once */
+export interface ValidationReport {
+  readonly valid: boolean;
+  readonly errors: readonly ValidationError[];
+}
+
 export type ValidationErrorCode =
   | "INVALID_ACTION_TYPE"
   | "INVALID_DIRECTION"
@@ -106,14 +118,22 @@ export function applyPulseDirection(pos: Position, dir: PulseDirection): Positio
 
 /**
  * Validate a single action
+ *
+ * @param rules - Ruleset to validate against (defaults to the state's)
  */
 export function validateAction(
   state: GameState,
   action: Action,
-  playerId: PlayerId
+  playerId: PlayerId,
+  rules: GameRules = getRules(state)
 ): ValidationResult {
-  // Check action type
-  if (!action || typeof action !== "object" || !("type" in action)) {
+  // Check action type (and that it names a quantar at all)
+  if (
+    !action ||
+    typeof action !== "object" ||
+    !("type" in action) ||
+    typeof action.quantarId !== "string"
+  ) {
     return {
       valid: false,
       error: "Invalid action format",
@@ -160,7 +180,7 @@ export function validateAction(
         };
       }
       const targetPos = applyDirection(quantar.position, action.direction);
-      if (!isInBounds(targetPos)) {
+      if (!isInBounds(targetPos, rules)) {
         return {
           valid: false,
           error: `Move would go out of bounds`,
@@ -205,62 +225,102 @@ export function validateAction(
 // ============================================================================
 
 /**
- * Validate all actions for a player's turn
+ * Validate all actions for a player's turn, collecting every error.
  *
- * Rules:
- * - Each living Quantar must have exactly one action
- * - No duplicate actions for the same Quantar
- * - All actions must be individually valid
+ * Each error carries the index of the offending action and the Quantar it
+ * names (if any); MISSING_QUANTAR_ACTION errors carry only the Quantar.
+ * A duplicate action is reported once as DUPLICATE_QUANTAR_ACTION and not
+ * validated further. Errors are ordered by action, then missing Quantars.
+ *
+ * @param rules - Ruleset to validate against (defaults to the state's)
  */
-export function validatePlayerActions(
+export function validateAllPlayerActions(
   state: GameState,
   actions: readonly Action[],
-  playerId: PlayerId
-): ValidationResult {
+  playerId: PlayerId,
+  rules: GameRules = getRules(state)
+): ValidationReport {
   // Check game is still playing
   if (state.phase !== GamePhase.Playing) {
     return {
       valid: false,
-      error: "Game is not in playing phase",
-      code: "GAME_NOT_IN_ACTION_PHASE",
+      errors: [
+        {
+          valid: false,
+          error: "Game is not in playing phase",
+          code: "GAME_NOT_IN_ACTION_PHASE",
+        },
+      ],
     };
   }
 
+  const errors: ValidationError[] = [];
   const playerQuantars = getPlayerQuantars(state, playerId);
   const aliveQuantars = playerQuantars.filter((q) => q.hp > 0);
-  const quantarIds = new Set(aliveQuantars.map((q) => q.id));
   const actionQuantarIds = new Set<string>();
 
   // Validate each action
-  for (const action of actions) {
+  for (const [actionIndex, action] of actions.entries()) {
+    const quantarId: unknown = action && typeof action === "object" ? action.quantarId : undefined;
+    const location = {
+      actionIndex,
+      ...(typeof quantarId === "string" ? { quantarId } : {}),
+    };
+
     // Check for duplicates
-    if (actionQuantarIds.has(action.quantarId)) {
-      return {
+    if (typeof quantarId === "string" && actionQuantarIds.has(quantarId)) {
+      errors.push({
         valid: false,
-        error: `Duplicate action for Quantar ${action.quantarId}`,
+        error: `Duplicate action for Quantar ${quantarId}`,
         code: "DUPLICATE_QUANTAR_ACTION",
-      };
+        ...location,
+      });
+      continue;
+    }
+    if (typeof quantarId === "string") {
+      actionQuantarIds.add(quantarId);
     }
-    actionQuantarIds.add(action.quantarId);
 
     // Validate individual action
-    const result = validateAction(state, action, playerId);
+    const result = validateAction(state, action, playerId, rules);
     if (!result.valid) {
-      return result;
+      errors.push({ ...result, ...location });
     }
   }
 
   // Check all alive Quantars have actions
   for (const quantar of aliveQuantars) {
     if (!actionQuantarIds.has(quantar.id)) {
-      return {
+      errors.push({
         valid: false,
         error: `Missing action for Quantar ${quantar.id}`,
         code: "MISSING_QUANTAR_ACTION",
-      };
+        quantarId: quantar.id,
+      });
     }
   }
 
-  return { valid: true };
+  return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Validate all actions for a player's turn
+ *
+ * Rules:
+ * - Each living Quantar must have exactly one action
+ * - No duplicate actions for the same Quantar
+ * - All actions must be individually valid
+ *
+ * Returns the first error validateAllPlayerActions would report.
+ *
+ * @param rules - Ruleset to validate against (defaults to the state's)
+ */
+export function validatePlayerActions(
+  state: GameState,
+  actions: readonly Action[],
+  playerId: PlayerId,
+  rules: GameRules = getRules(state)
+): ValidationResult {
+  const report = validateAllPlayerActions(state, actions, playerId, rules);
+  return report.errors[0] ?? { valid: true };
+}
@@ -0,0 +1,285 @@
+/**
+ * @quantaris/engine - Action Warnings
+ *
+ * Non-blocking lint pass over a player's turn. Flags actions that pass
+ * validation but, judging from the current state and the rest of the
+ * player's submission, are certain (or very likely) to be wasted.
+ */
+
+import type { Action, GameRules, GameState, PlayerId, Position, PulseDirection } from "../core/types.js";
+import {
+  ActionType,
+  ALL_DIRECTIONS,
+  ALL_PULSE_DIRECTIONS,
+  TERRAIN_PROPERTIES,
+} from "../core/types.js";
+import {
+  getQuantar,
+  getPlayerQuantars,
+  getEntityAt,
+  getTerrainAt,
+  getOpponent,
+  isInBounds,
+  positionsEqual,
+} from "../core/state.js";
+import { getRules } from "../core/rules.js";
+import { validateAction, applyDirection, applyPulseDirection, isDiagonalPulse } from "./validate.js";
+
+// ============================================================================
+// Warning Types
+// ============================================================================
+
+export type ValidationWarningCode =
+  /** Move into a Core — always blocked */
+  | "MOVE_INTO_CORE"
+  /** Move into a wall or pit — always blocked */
+  | "MOVE_INTO_TERRAIN"
+  /** Pulse reaches the edge of the board through cells nothing is or can move into — misses */
+  | "PULSE_TOWARD_EDGE"
+  /** Pulse's first cell is pulse-blocking terrain nobody can stand on this turn — always absorbed */
+  | "PULSE_INTO_TERRAIN"
+  /** Diagonal pulse at a cell nobody can occupy this turn — always misses */
+  | "PULSE_NO_TARGET"
+  /** First entity on the pulse's path is friendly, or a friendly Quantar moves into it first */
+  | "FRIENDLY_FIRE_RISK"
+  /** No pulse, enemy or friendly, can hit this Quantar this turn — the shield does nothing */
+  | "SHIELD_UNREACHABLE";
+
+export interface ValidationWarning {
+  readonly code: ValidationWarningCode;
+  readonly warning: string;
+  readonly quantarId: string;
+  readonly actionIndex: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const cellKey = (p: Position): string => `${p.x},${p.y}`;
+
+/** What the rest of the player's submission does this turn */
+interface FriendlyPlan {
+  /** Cells friendly Quantars move into (unless blocked by each other), by cell key */
+  readonly movingIn: ReadonlyMap<string, string>;
+  readonly pulses: readonly { readonly origin: Position; readonly direction: PulseDirection }[];
+}
+
+function isCoreAt(state: GameState, position: Position): boolean {
+  return positionsEqual(state.cores.A.position, position) || positionsEqual(state.cores.B.position, position);
+}
+
+function blocksMovement(state: GameState, position: Position): boolean {
+  const terrain = getTerrainAt(state, position);
+  return terrain !== null && TERRAIN_PROPERTIES[terrain.type].blocksMovement;
+}
+
+function blocksPulses(state: GameState, position: Position): boolean {
+  const terrain = getTerrainAt(state, position);
+  return terrain !== null && TERRAIN_PROPERTIES[terrain.type].blocksPulses;
+}
+
+/**
+ * Cells a Quantar could fire from this turn: where it stands, plus every
+ * move that is not certain to be blocked.
+ */
+function getPossibleOrigins(state: GameState, position: Position, rules: GameRules): Position[] {
+  const moves = ALL_DIRECTIONS.map((dir) => applyDirection(position, dir)).filter(
+    (to) => isInBounds(to, rules) && !isCoreAt(state, to) && !blocksMovement(state, to)
+  );
+  return [position, ...moves];
+}
+
+/**
+ * Check if a pulse fired from origin could reach target, considering only
+ * things that cannot move this turn (Cores and terrain)
+ */
+function canPulseReach(
+  state: GameState,
+  origin: Position,
+  direction: PulseDirection,
+  target: Position,
+  rules: GameRules
+): boolean {
+  const range = isDiagonalPulse(direction) ? 1 : Infinity;
+  let current = origin;
+
+  for (let step = 0; step < range; step++) {
+    current = applyPulseDirection(current, direction);
+    if (!isInBounds(current, rules)) {
+      return false;
+    }
+    if (positionsEqual(current, target)) {
+      return true; // Even on a pillar: pulses hit whatever stands on one
+    }
+    if (isCoreAt(state, current) || blocksPulses(state, current)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if any enemy Quantar could hit the given cell this turn
+ */
+function isReachableByEnemy(state: GameState, target: Position, playerId: PlayerId, rules: GameRules): boolean {
+  return getPlayerQuantars(state, getOpponent(playerId)).some((enemy) =>
+    getPossibleOrigins(state, enemy.position, rules).some((origin) =>
+      ALL_PULSE_DIRECTIONS.some((dir) => canPulseReach(state, origin, dir, target, rules))
+    )
+  );
+}
+
+/**
+ * Check if any enemy Quantar could stand on the given cell after moving
+ */
+function canEnemyOccupy(state: GameState, target: Position, playerId: PlayerId, rules: GameRules): boolean {
+  return getPlayerQuantars(state, getOpponent(playerId)).some((enemy) =>
+    getPossibleOrigins(state, enemy.position, rules).some((pos) => positionsEqual(pos, target))
+  );
+}
+
+/**
+ * Collect the moves and pulses of a player's valid actions. A pulsing
+ * Quantar stays put, so it fires from where it stands.
+ */
+function planFriendlyActions(state: GameState, actions: readonly Action[], rules: GameRules): FriendlyPlan {
+  const movingIn = new Map<string, string>();
+  const pulses: { origin: Position; direction: PulseDirection }[] = [];
+  for (const action of actions) {
+    const quantar = getQuantar(state, action.quantarId);
+    if (!quantar) continue;
+    if (action.type === ActionType.Move) {
+      const to = applyDirection(quantar.position, action.direction);
+      if (isInBounds(to, rules) && !isCoreAt(state, to) && !blocksMovement(state, to)) {
+        movingIn.set(cellKey(to), quantar.id);
+      }
+    } else if (action.type === ActionType.Pulse) {
+      pulses.push({ origin: quantar.position, direction: action.direction });
+    }
+  }
+  return { movingIn, pulses };
+}
+
+function lintAction(
+  state: GameState,
+  action: Action,
+  playerId: PlayerId,
+  rules: GameRules,
+  friendly: FriendlyPlan
+): [ValidationWarningCode, string] | null {
+  const quantar = getQuantar(state, action.quantarId);
+  if (!quantar) {
+    return null;
+  }
+
+  switch (action.type) {
+    case ActionType.Move: {
+      const target = applyDirection(quantar.position, action.direction);
+      if (isCoreAt(state, target)) {
+        return ["MOVE_INTO_CORE", `Move by ${quantar.id} into a Core will always be blocked`];
+      }
+      if (blocksMovement(state, target)) {
+        return ["MOVE_INTO_TERRAIN", `Move by ${quantar.id} into terrain will always be blocked`];
+      }
+      return null;
+    }
+
+    case ActionType.Pulse: {
+      const first = applyPulseDirection(quantar.position, action.direction);
+      // A quantar on a pillar would be hit instead
+      if (
+        isInBounds(first, rules) &&
+        blocksPulses(state, first) &&
+        !getEntityAt(state, first) &&
+        !friendly.movingIn.has(cellKey(first)) &&
+        !canEnemyOccupy(state, first, playerId, rules)
+      ) {
+        return ["PULSE_INTO_TERRAIN", `Pulse by ${quantar.id} is stopped by terrain right away`];
+      }
+
+      // Trace the lane as things stand, noting cells an enemy could step into
+      const range = isDiagonalPulse(action.direction) ? 1 : Infinity;
+      let current = quantar.position;
+      let enemyCanEnter = false;
+      for (let step = 0; step < range; step++) {
+        current = applyPulseDirection(current, action.direction);
+        if (!isInBounds(current, rules)) {
+          if (!enemyCanEnter) {
+            return ["PULSE_TOWARD_EDGE", `Pulse by ${quantar.id} reaches the edge of the board and will miss`];
+          }
+          break;
+        }
+        const entity = getEntityAt(state, current);
+        if (entity) {
+          if (entity.entity.owner === playerId) {
+            return ["FRIENDLY_FIRE_RISK", `Pulse by ${quantar.id} is aimed at a friendly ${entity.type}`];
+          }
+          return null;
+        }
+        const mover = friendly.movingIn.get(cellKey(current));
+        if (mover) {
+          if (enemyCanEnter || canEnemyOccupy(state, current, playerId, rules)) return null;
+          return ["FRIENDLY_FIRE_RISK", `Pulse by ${quantar.id} is aimed where ${mover} is moving`];
+        }
+        if (blocksPulses(state, current)) break;
+        enemyCanEnter ||= canEnemyOccupy(state, current, playerId, rules);
+      }
+
+      if (
+        isDiagonalPulse(action.direction) &&
+        !isCoreAt(state, first) &&
+        !canEnemyOccupy(state, first, playerId, rules)
+      ) {
+        return ["PULSE_NO_TARGET", `Pulse by ${quantar.id} targets a cell no enemy can reach`];
+      }
+      return null;
+    }
+
+    case ActionType.Shield: {
+      const friendlyFire = friendly.pulses.some((p) =>
+        canPulseReach(state, p.origin, p.direction, quantar.position, rules)
+      );
+      if (!friendlyFire && !isReachableByEnemy(state, quantar.position, playerId, rules)) {
+        return ["SHIELD_UNREACHABLE", `Shield on ${quantar.id} is wasted: no pulse can hit it this turn`];
+      }
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lint a player's actions for moves that are certain to be wasted.
+ *
+ * Warnings never block submission. They are computed from the current
+ * state and the player's own actions: friendly moves can put a Quantar in
+ * a pulse's way, and friendly pulses can hit a shielded Quantar. Invalid
+ * actions are skipped (validation reports those).
+ */
+export function lintPlayerActions(
+  state: GameState,
+  actions: readonly Action[],
+  playerId: PlayerId,
+  rules: GameRules = getRules(state)
+): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const valid = actions.map((action) => validateAction(state, action, playerId, rules).valid);
+  const friendly = planFriendlyActions(state, actions.filter((_, i) => valid[i]), rules);
+
+  for (const [actionIndex, action] of actions.entries()) {
+    if (!valid[actionIndex]) {
+      continue;
+    }
+    const found = lintAction(state, action, playerId, rules, friendly);
+    if (found) {
+      const [code, warning] = found;
+      warnings.push({ code, warning, quantarId: action.quantarId, actionIndex });
+    }
+  }
+
+  return warnings;
+}
@@ -2,5 +2,6 @@
  * Core module exports
  */
 export * from "./types.js";
+export * from "./rules.js";
 export * from "./state.js";
 
@@ -0,0 +1,116 @@
+/**
+ * @quantaris/engine - Rules
+ *
+ * Ruleset configuration. Every tunable number the engine uses lives here,
+ * so balance experiments don't require forking the engine.
+ */
+
+import type { GameRules, GameState } from "./types.js";
+import {
+  BOARD_SIZE,
+  CORE_HP,
+  QUANTAR_HP,
+  PULSE_DAMAGE,
+  SHIELD_REDUCTION,
+  QUANTARS_PER_PLAYER,
+  MAX_TURNS,
+  TiebreakPolicy,
+  VisibilityMode,
+} from "./types.js";
+
+/**
+ * The standard ruleset. Games played under it behave (and hash) exactly
+ * like games created before rulesets existed.
+ */
+export const DEFAULT_RULES: GameRules = Object.freeze({
+  boardWidth: BOARD_SIZE,
+  boardHeight: BOARD_SIZE,
+  coreHp: CORE_HP,
+  quantarHp: QUANTAR_HP,
+  pulseDamage: PULSE_DAMAGE,
+  shieldReduction: SHIELD_REDUCTION,
+  quantarsPerPlayer: QUANTARS_PER_PLAYER,
+  maxTurns: MAX_TURNS,
+  repetitionLimit: 0,
+  tiebreak: TiebreakPolicy.Draw,
+  visibility: VisibilityMode.Full,
+  visionRadius: 3,
+});
+
+/** Integer-valued rule keys */
+export const NUMERIC_RULE_KEYS = [
+  "boardWidth",
+  "boardHeight",
+  "coreHp",
+  "quantarHp",
+  "pulseDamage",
+  "shieldReduction",
+  "quantarsPerPlayer",
+  "maxTurns",
+  "repetitionLimit",
+  "visionRadius",
+] as const satisfies readonly (keyof GameRules)[];
+
+/** Rule keys in canonical order (used for hashing and comparison) */
+export const RULE_KEYS: readonly (keyof GameRules)[] = [...NUMERIC_RULE_KEYS, "tiebreak", "visibility"];
+
+const TIEBREAK_POLICIES: readonly string[] = Object.values(TiebreakPolicy);
+const VISIBILITY_MODES: readonly string[] = Object.values(VisibilityMode);
+
+/**
+ * Create a ruleset from partial overrides on top of DEFAULT_RULES.
+ *
+ * @throws RangeError if a value is not a sensible integer, or the
+ *   quantar roster does not fit on the board
+ */
+export function createRules(overrides: Partial<GameRules> = {}): GameRules {
+  const rules: GameRules = { ...DEFAULT_RULES, ...overrides };
+
+  for (const key of NUMERIC_RULE_KEYS) {
+    const value = rules[key];
+    const min =
+      key === "pulseDamage" || key === "shieldReduction" || key === "repetitionLimit" || key === "visionRadius"
+        ? 0
+        : 1;
+    if (!Number.isInteger(value) || value < min) {
+      throw new RangeError(`Invalid rule ${key}: ${value}`);
+    }
+  }
+
+  // Every position occurs once, so a limit of 1 would end the game at once
+  if (rules.repetitionLimit === 1) {
+    throw new RangeError("Invalid rule repetitionLimit: 1 (use 0 to disable, or at least 2)");
+  }
+  if (!TIEBREAK_POLICIES.includes(rules.tiebreak)) {
+    throw new RangeError(`Invalid rule tiebreak: ${rules.tiebreak}`);
+  }
+  if (!VISIBILITY_MODES.includes(rules.visibility)) {
+    throw new RangeError(`Invalid rule visibility: ${rules.visibility}`);
+  }
+
+  // The default layout needs a Core row and a quantar row per side
+  if (rules.boardHeight < 4) {
+    throw new RangeError(`Invalid rule boardHeight: ${rules.boardHeight} (minimum 4)`);
+  }
+  if (rules.quantarsPerPlayer > rules.boardWidth) {
+    throw new RangeError(
+      `Invalid rule quantarsPerPlayer: ${rules.quantarsPerPlayer} does not fit a board ${rules.boardWidth} wide`
+    );
+  }
+
+  return Object.freeze(rules);
+}
+
+/**
+ * Get the ruleset a state is played under
+ */
+export function getRules(state: GameState): GameRules {
+  return state.rules ?? DEFAULT_RULES;
+}
+
+/**
+ * Check if two rulesets are identical
+ */
+export function rulesEqual(a: GameRules, b: GameRules): boolean {
+  return RULE_KEYS.every((key) => a[key] === b[key]);
+}
@@ -4,8 +4,17 @@
  * Functions for creating and managing game state.
  */
 
-import type { GameState, Quantar, Core, PlayerId, Position } from "./types.js";
-import { CORE_HP, QUANTAR_HP, GamePhase, EntityType } from "./types.js";
+import type {
+  GameState,
+  GameRules,
+  Quantar,
+  Core,
+  PlayerId,
+  Position,
+  TerrainCell,
+} from "./types.js";
+import { GamePhase, EntityType } from "./types.js";
+import { DEFAULT_RULES, createRules } from "./rules.js";
 
 /**
  * Initial placement from whitepaper:
@@ -22,24 +31,37 @@ import { CORE_HP, QUANTAR_HP, GamePhase, EntityType } from "./types.js";
  * y=8    .  .  .  .  AC .  .  .  .
  */
 
-const INITIAL_POSITIONS = {
-  cores: {
-    A: { x: 4, y: 8 } as Position,
-    B: { x: 4, y: 0 } as Position,
-  },
-  quantars: {
-    A: [
-      { x: 3, y: 6 },
-      { x: 4, y: 6 },
-      { x: 5, y: 6 },
-    ] as Position[],
-    B: [
-      { x: 3, y: 2 },
-      { x: 4, y: 2 },
-      { x: 5, y: 2 },
-    ] as Position[],
-  },
-} as const;
+interface InitialPositions {
+  readonly cores: { readonly A: Position; readonly B: Position };
+  readonly quantars: { readonly A: readonly Position[]; readonly B: readonly Position[] };
+}
+
+/**
+ * Compute the starting layout for a ruleset.
+ *
+ * Cores sit in the middle column of each back row, quantars form a centred
+ * line two rows in front of their Core (one row on boards too short for
+ * that). On the default 9x9 board this is exactly the whitepaper diagram above.
+ */
+function getInitialPositions(rules: GameRules): InitialPositions {
+  const { boardWidth: width, boardHeight: height } = rules;
+  const center = Math.floor(width / 2);
+  const firstX = center - Math.floor(rules.quantarsPerPlayer / 2);
+  const rowOffset = Math.min(2, Math.ceil((height - 1) / 2) - 1);
+  const line = (y: number): Position[] =>
+    Array.from({ length: rules.quantarsPerPlayer }, (_, i) => ({ x: firstX + i, y }));
+
+  return {
+    cores: {
+      A: { x: center, y: height - 1 },
+      B: { x: center, y: 0 },
+    },
+    quantars: {
+      A: line(height - 1 - rowOffset),
+      B: line(rowOffset),
+    },
+  };
+}
 
 /**
  * Create a new Quantar entity
@@ -47,38 +69,43 @@ const INITIAL_POSITIONS = {
 function createQuantar(
   owner: PlayerId,
   index: number,
-  position: Position
+  position: Position,
+  hp: number
 ): Quantar {
   return {
     id: `${owner}${index + 1}`, // A1, A2, A3, B1, B2, B3
     owner,
     position: { ...position },
-    hp: QUANTAR_HP,
+    hp,
   };
 }
 
 /**
  * Create a new Core entity
  */
-function createCore(owner: PlayerId, position: Position): Core {
+function createCore(owner: PlayerId, position: Position, hp: number): Core {
   return {
     owner,
     position: { ...position },
-    hp: CORE_HP,
+    hp,
   };
 }
 
 /**
  * Create the initial game state
  *
+ * @param rules - Ruleset to play under (defaults to the standard rules)
  * @returns A fresh GameState ready for turn 1
+ * @throws RangeError if the ruleset is invalid (see createRules)
  */
-export function createInitialState(): GameState {
-  const quantarsA = INITIAL_POSITIONS.quantars.A.map((pos, i) =>
-    createQuantar("A", i, pos)
+export function createInitialState(rules: GameRules = DEFAULT_RULES): GameState {
+  createRules(rules); // Validates; rulesets not built with createRules get the same checks
+  const positions = getInitialPositions(rules);
+  const quantarsA = positions.quantars.A.map((pos, i) =>
+    createQuantar("A", i, pos, rules.quantarHp)
   );
-  const quantarsB = INITIAL_POSITIONS.quantars.B.map((pos, i) =>
-    createQuantar("B", i, pos)
+  const quantarsB = positions.quantars.B.map((pos, i) =>
+    createQuantar("B", i, pos, rules.quantarHp)
   );
 
   return {
@@ -86,10 +113,11 @@ export function createInitialState(): GameState {
     phase: GamePhase.Playing,
     quantars: [...quantarsA, ...quantarsB],
     cores: {
-      A: createCore("A", INITIAL_POSITIONS.cores.A),
-      B: createCore("B", INITIAL_POSITIONS.cores.B),
+      A: createCore("A", positions.cores.A, rules.coreHp),
+      B: createCore("B", positions.cores.B, rules.coreHp),
     },
     winner: null,
+    rules,
   };
 }
 
@@ -100,6 +128,20 @@ export function getQuantar(state: GameState, id: string): Quantar | undefined {
   return state.quantars.find((q) => q.id === id);
 }
 
+/**
+ * Quantar ids are letters, digits and underscores: canonical forms and QGN
+ * use characters such as "|", ":" and "," as separators, so any other id
+ * could make two different states canonicalize (and hash) alike
+ */
+const QUANTAR_ID_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Check if a value can be used as a Quantar ID
+ */
+export function isValidQuantarId(id: unknown): id is string {
+  return typeof id === "string" && QUANTAR_ID_PATTERN.test(id);
+}
+
 /**
  * Get all Quantars owned by a player
  */
@@ -120,8 +162,13 @@ export function getPlayerCore(state: GameState, playerId: PlayerId): Core {
 /**
  * Check if a position is within board bounds
  */
-export function isInBounds(position: Position): boolean {
-  return position.x >= 0 && position.x < 9 && position.y >= 0 && position.y < 9;
+export function isInBounds(position: Position, rules: GameRules): boolean {
+  return (
+    position.x >= 0 &&
+    position.x < rules.boardWidth &&
+    position.y >= 0 &&
+    position.y < rules.boardHeight
+  );
 }
 
 /**
@@ -157,6 +204,13 @@ export function getEntityAt(
   return null;
 }
 
+/**
+ * Get the terrain cell at a position (null for open ground)
+ */
+export function getTerrainAt(state: GameState, position: Position): TerrainCell | null {
+  return state.terrain?.find((t) => positionsEqual(t.position, position)) ?? null;
+}
+
 /**
  * Get the opponent's player ID
  */
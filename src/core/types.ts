@@ -61,10 +61,10 @@ export const GamePhase = {
 } as const;
 export type GamePhase = (typeof GamePhase)[keyof typeof GamePhase];
 
-/** Board position (0-8 for both x and y) */
+/** Board position (0 to boardWidth-1 / boardHeight-1, 0-8 on the default board) */
 export interface Position {
-  readonly x: number; // 0-8
-  readonly y: number; // 0-8
+  readonly x: number; // column, 0 = west edge
+  readonly y: number; // row, 0 = north edge (Player B's side)
 }
 
 // ============================================================================
@@ -86,6 +86,36 @@ export interface Core {
   readonly hp: number;
 }
 
+// ============================================================================
+// Terrain
+// ============================================================================
+
+/** Static board features */
+export const TerrainType = {
+  /** Impassable, stops pulses */
+  Wall: "wall",
+  /** Stops pulses passing through, but can be entered — a Quantar standing on it can still be hit */
+  Pillar: "pillar",
+  /** Impassable, pulses pass over it */
+  Pit: "pit",
+} as const;
+export type TerrainType = (typeof TerrainType)[keyof typeof TerrainType];
+
+/** What each terrain type blocks */
+export const TERRAIN_PROPERTIES: Readonly<
+  Record<TerrainType, { readonly blocksMovement: boolean; readonly blocksPulses: boolean }>
+> = {
+  wall: { blocksMovement: true, blocksPulses: true },
+  pillar: { blocksMovement: false, blocksPulses: true },
+  pit: { blocksMovement: true, blocksPulses: false },
+};
+
+/** A single terrain cell */
+export interface TerrainCell {
+  readonly position: Position;
+  readonly type: TerrainType;
+}
+
 // ============================================================================
 // Actions
 // ============================================================================
@@ -135,6 +165,59 @@ export interface GameState {
     readonly B: Core;
   };
   readonly winner: PlayerId | null;
+  /** Static terrain layer (empty board when absent) */
+  readonly terrain?: readonly TerrainCell[];
+  /** Ruleset this game is played under (DEFAULT_RULES when absent) */
+  readonly rules?: GameRules;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/** How a game that reaches maxTurns is decided */
+export const TiebreakPolicy = {
+  /** The game is drawn */
+  Draw: "draw",
+  /** Higher Core HP wins */
+  CoreHp: "core_hp",
+  /** Higher total Quantar HP wins */
+  QuantarHp: "quantar_hp",
+  /** Play on; both Cores take escalating damage each turn */
+  SuddenDeath: "sudden_death",
+} as const;
+
+export type TiebreakPolicy = (typeof TiebreakPolicy)[keyof typeof TiebreakPolicy];
+
+/** What each player can see of the opponent's quantars */
+export const VisibilityMode = {
+  /** Everything is visible to both players */
+  Full: "full",
+  /** Cells within visionRadius (orthogonal steps) of the player's quantars */
+  Radius: "radius",
+  /** Cells the player's quantars could pulse: orthogonal lanes up to the first obstacle, plus diagonal neighbours */
+  Lanes: "lanes",
+} as const;
+
+export type VisibilityMode = (typeof VisibilityMode)[keyof typeof VisibilityMode];
+
+/** Tunable game parameters - DEFAULT_RULES reproduces the whitepaper game */
+export interface GameRules {
+  readonly boardWidth: number;
+  readonly boardHeight: number;
+  readonly coreHp: number;
+  readonly quantarHp: number;
+  readonly pulseDamage: number;
+  readonly shieldReduction: number;
+  readonly quantarsPerPlayer: number;
+  readonly maxTurns: number;
+  /** End the game as a draw when a position occurs this many times (0 = off) */
+  readonly repetitionLimit: number;
+  readonly tiebreak: TiebreakPolicy;
+  /** Fog of war for player views (VisibilityMode.Full = off) */
+  readonly visibility: VisibilityMode;
+  /** Vision range for VisibilityMode.Radius */
+  readonly visionRadius: number;
 }
 
 // ============================================================================
@@ -142,10 +225,25 @@ export interface GameState {
 // ============================================================================
 
 /** Input for turn resolution */
+/**
+ * A SHA-256 position hash from hashPositionSha256: the only kind
+ * TurnInput.positionHistory accepts, since djb2 collisions could fake a
+ * repetition
+ */
+export type Sha256PositionHash = string & { readonly __brand: "Sha256PositionHash" };
+
 export interface TurnInput {
   readonly state: GameState;
   readonly actionsA: readonly Action[];
   readonly actionsB: readonly Action[];
+  /** Overrides the state's ruleset for this turn (and the resulting state) */
+  readonly rules?: GameRules;
+  /**
+   * hashPositionSha256(s) of every earlier state of the game, including
+   * `state`. Needed for rules.repetitionLimit; without it repetition is not
+   * checked.
+   */
+  readonly positionHistory?: readonly Sha256PositionHash[];
 }
 
 // Event type constants
@@ -155,27 +253,50 @@ export const EventType = {
   PulseFired: "PULSE_FIRED",
   PulseHit: "PULSE_HIT",
   PulseMiss: "PULSE_MISS",
+  TerrainHit: "TERRAIN_HIT",
   ShieldActivated: "SHIELD_ACTIVATED",
   DamageApplied: "DAMAGE_APPLIED",
   EntityDestroyed: "ENTITY_DESTROYED",
   GameOver: "GAME_OVER",
   TerminalLoss: "TERMINAL_LOSS",
+  Tiebreak: "TIEBREAK",
+  SuddenDeath: "SUDDEN_DEATH",
   Draw: "DRAW",
 } as const;
 
+/** Pulse damage one Quantar contributed to a DAMAGE_APPLIED event */
+export interface DamageSource {
+  readonly quantarId: string;
+  readonly damage: number;
+}
+
 /** Single event in the turn log */
 export type TurnEvent =
   | { readonly type: typeof EventType.Move; readonly quantarId: string; readonly from: Position; readonly to: Position }
   | { readonly type: typeof EventType.MoveBlocked; readonly quantarId: string; readonly from: Position; readonly direction: Direction; readonly reason: string }
   | { readonly type: typeof EventType.PulseFired; readonly quantarId: string; readonly from: Position; readonly direction: PulseDirection }
-  | { readonly type: typeof EventType.PulseHit; readonly targetId: string; readonly targetType: EntityType; readonly damage: number }
+  | { readonly type: typeof EventType.PulseHit; readonly sourceQuantarId: string; readonly targetId: string; readonly targetType: EntityType; readonly position: Position; readonly damage: number }
   | { readonly type: typeof EventType.PulseMiss; readonly quantarId: string }
+  | { readonly type: typeof EventType.TerrainHit; readonly quantarId: string; readonly position: Position; readonly terrain: TerrainType }
   | { readonly type: typeof EventType.ShieldActivated; readonly quantarId: string }
-  | { readonly type: typeof EventType.DamageApplied; readonly targetId: string; readonly damage: number; readonly remainingHp: number }
+  | {
+      readonly type: typeof EventType.DamageApplied;
+      readonly targetId: string;
+      /** Damage actually dealt (rawDamage - shieldAbsorbed) */
+      readonly damage: number;
+      /** Sum of all pulse hits before shields */
+      readonly rawDamage: number;
+      readonly shieldAbsorbed: number;
+      /** Contributing pulses, in firing order */
+      readonly sources: readonly DamageSource[];
+      readonly remainingHp: number;
+    }
   | { readonly type: typeof EventType.EntityDestroyed; readonly entityId: string; readonly entityType: EntityType }
   | { readonly type: typeof EventType.GameOver; readonly winner: PlayerId }
   | { readonly type: typeof EventType.TerminalLoss; readonly loser: PlayerId; readonly reason: "no_quantars" }
-  | { readonly type: typeof EventType.Draw; readonly reason: "max_turns" | "mutual_destruction" };
+  | { readonly type: typeof EventType.Tiebreak; readonly policy: TiebreakPolicy; readonly scoreA: number; readonly scoreB: number }
+  | { readonly type: typeof EventType.SuddenDeath; readonly damage: number }
+  | { readonly type: typeof EventType.Draw; readonly reason: "max_turns" | "mutual_destruction" | "repetition" };
 
 /** Log of everything that happened in a turn */
 export interface TurnLog {
@@ -5,12 +5,51 @@
  * Used for replay verification and state comparison.
  */
 
-import type { GameState, Quantar, Core, Action, TurnLog } from "../core/types.js";
+import type {
+  GameState,
+  GameRules,
+  Quantar,
+  Core,
+  TerrainCell,
+  Action,
+  Sha256PositionHash,
+} from "../core/types.js";
+import { DEFAULT_RULES, RULE_KEYS } from "../core/rules.js";
+import { sha256 } from "./sha256.js";
 
 // ============================================================================
 // Canonical Serialization
 // ============================================================================
 
+/**
+ * Version of the canonical string format. Frozen: any change to what
+ * canonicalizeState / canonicalizeActions produce (and therefore to every
+ * hash) must bump it, and ports in other languages match against it.
+ */
+export const CANONICAL_FORMAT_VERSION = 1;
+
+/**
+ * Compare two strings by Unicode code point.
+ *
+ * Unlike localeCompare this does not depend on ICU or the runtime locale,
+ * and unlike `<` it orders astral characters after U+E000-U+FFFF, as
+ * byte-wise UTF-8 comparison in other languages does.
+ */
+export function compareCodePoints(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const ca = a.codePointAt(i)!;
+    const cb = b.codePointAt(j)!;
+    if (ca !== cb) {
+      return ca - cb;
+    }
+    i += ca > 0xffff ? 2 : 1;
+    j += cb > 0xffff ? 2 : 1;
+  }
+  return (a.length - i) - (b.length - j);
+}
+
 /**
  * Serialize a Quantar to a canonical string
  */
@@ -25,6 +64,25 @@ function serializeCore(c: Core): string {
   return `C:${c.owner}:${c.position.x},${c.position.y}:${c.hp}`;
 }
 
+/**
+ * Serialize a terrain cell to a canonical string
+ */
+function serializeTerrain(t: TerrainCell): string {
+  return `X:${t.type}:${t.position.x},${t.position.y}`;
+}
+
+/**
+ * Serialize the rules that differ from DEFAULT_RULES, in RULE_KEYS order.
+ * Returns null for the default ruleset so default games keep their hashes.
+ * Keys missing from rulesets stored before they existed count as default.
+ */
+function serializeRules(rules: GameRules): string | null {
+  const overrides = RULE_KEYS.filter((key) => rules[key] !== undefined && rules[key] !== DEFAULT_RULES[key]).map(
+    (key) => `${key}=${rules[key]}`
+  );
+  return overrides.length > 0 ? `R:${overrides.join(",")}` : null;
+}
+
 /**
  * Serialize an action to a canonical string
  */
@@ -39,49 +97,89 @@ function serializeAction(a: Action): string {
   }
 }
 
-/**
- * Convert a GameState to a canonical string representation.
- *
- * The canonical form is deterministic - same state always produces same string.
- * Quantars are sorted by ID to ensure consistent ordering.
- */
-export function canonicalizeState(state: GameState): string {
+function serializeState(state: GameState, includeTurn: boolean): string {
   const parts: string[] = [];
 
   // Game metadata
-  parts.push(`T:${state.turn}`);
+  if (includeTurn) {
+    parts.push(`T:${state.turn}`);
+  }
   parts.push(`P:${state.phase}`);
   parts.push(`W:${state.winner ?? "null"}`);
 
+  // Ruleset (omitted when default)
+  const rules = state.rules ? serializeRules(state.rules) : null;
+  if (rules) {
+    parts.push(rules);
+  }
+
   // Cores (always in A, B order)
   parts.push(serializeCore(state.cores.A));
   parts.push(serializeCore(state.cores.B));
 
   // Quantars (sorted by ID for determinism)
-  const sortedQuantars = [...state.quantars].sort((a, b) => a.id.localeCompare(b.id));
+  const sortedQuantars = [...state.quantars].sort((a, b) => compareCodePoints(a.id, b.id));
   for (const q of sortedQuantars) {
     parts.push(serializeQuantar(q));
   }
 
+  // Terrain (sorted by position)
+  const sortedTerrain = [...(state.terrain ?? [])].sort(
+    (a, b) => a.position.y - b.position.y || a.position.x - b.position.x
+  );
+  for (const t of sortedTerrain) {
+    parts.push(serializeTerrain(t));
+  }
+
   return parts.join("|");
 }
 
+/**
+ * Convert a GameState to a canonical string representation.
+ *
+ * The canonical form is deterministic - same state always produces same string.
+ * Quantars are sorted by ID (by code point) to ensure consistent ordering.
+ * Terrain is sorted by row, then column, and follows the quantars.
+ * Rules and terrain segments are only present when non-default/non-empty.
+ */
+export function canonicalizeState(state: GameState): string {
+  return serializeState(state, true);
+}
+
+/**
+ * Canonical form of the position alone: canonicalizeState without the
+ * turn counter, so the same board reached on different turns compares equal.
+ */
+export function canonicalizePosition(state: GameState): string {
+  return serializeState(state, false);
+}
+
 /**
  * Convert actions to a canonical string representation.
  */
 export function canonicalizeActions(actions: readonly Action[]): string {
-  const sorted = [...actions].sort((a, b) => a.quantarId.localeCompare(b.quantarId));
+  const sorted = [...actions].sort((a, b) => compareCodePoints(a.quantarId, b.quantarId));
   return sorted.map(serializeAction).join("|");
 }
 
 // ============================================================================
-// Simple Hash Function
+// Hash Functions
 // ============================================================================
 
+/** Hash algorithms for hashState and friends */
+export const HashAlgorithm = {
+  /** 32-bit, fast - for dedup and quick comparisons only */
+  Djb2: "djb2",
+  /** Collision-resistant - for anything an opponent could tamper with */
+  Sha256: "sha256",
+} as const;
+
+export type HashAlgorithm = (typeof HashAlgorithm)[keyof typeof HashAlgorithm];
+
 /**
  * Simple string hash function (djb2 algorithm)
  *
- * For cryptographic applications, use a proper hash like SHA-256.
+ * For cryptographic applications, use HashAlgorithm.Sha256.
  * This is suitable for quick comparisons and deduplication.
  */
 function djb2Hash(str: string): number {
@@ -93,11 +191,26 @@ function djb2Hash(str: string): number {
 }
 
 /**
- * Hash a string to a hex representation
+ * Hash a string to a hex representation.
+ *
+ * djb2 hashes are bare 8-digit hex (unchanged from before algorithms were
+ * selectable); every other algorithm is prefixed with its name, e.g.
+ * `sha256:<64 hex digits>`.
+ */
+export function hashString(str: string, algorithm: HashAlgorithm = HashAlgorithm.Djb2): string {
+  switch (algorithm) {
+    case HashAlgorithm.Djb2:
+      return djb2Hash(str).toString(16).padStart(8, "0");
+    case HashAlgorithm.Sha256:
+      return `${HashAlgorithm.Sha256}:${sha256(str)}`;
+  }
+}
+
+/**
+ * The algorithm that produced a hash, read from its prefix (bare hex is djb2)
  */
-function hashToHex(str: string): string {
-  const hash = djb2Hash(str);
-  return hash.toString(16).padStart(8, "0");
+export function getHashAlgorithm(hash: string): HashAlgorithm {
+  return hash.startsWith(`${HashAlgorithm.Sha256}:`) ? HashAlgorithm.Sha256 : HashAlgorithm.Djb2;
 }
 
 // ============================================================================
@@ -110,17 +223,32 @@ function hashToHex(str: string): string {
  * Same state always produces the same hash.
  * Different states should produce different hashes (with high probability).
  */
-export function hashState(state: GameState): string {
+export function hashState(state: GameState, algorithm: HashAlgorithm = HashAlgorithm.Djb2): string {
   const canonical = canonicalizeState(state);
-  return hashToHex(canonical);
+  return hashString(canonical, algorithm);
+}
+
+/**
+ * Generate a hash of the position (the state without its turn counter).
+ * Used for repetition detection.
+ */
+export function hashPosition(state: GameState, algorithm: HashAlgorithm = HashAlgorithm.Djb2): string {
+  return hashString(canonicalizePosition(state), algorithm);
+}
+
+/**
+ * Generate the SHA-256 position hash used for repetition tracking.
+ */
+export function hashPositionSha256(state: GameState): Sha256PositionHash {
+  return hashPosition(state, HashAlgorithm.Sha256) as Sha256PositionHash;
 }
 
 /**
  * Generate a hash of player actions.
  */
-export function hashActions(actions: readonly Action[]): string {
+export function hashActions(actions: readonly Action[], algorithm: HashAlgorithm = HashAlgorithm.Djb2): string {
   const canonical = canonicalizeActions(actions);
-  return hashToHex(canonical);
+  return hashString(canonical, algorithm);
 }
 
 /**
@@ -131,13 +259,14 @@ export function hashActions(actions: readonly Action[]): string {
 export function hashTurn(
   state: GameState,
   actionsA: readonly Action[],
-  actionsB: readonly Action[]
+  actionsB: readonly Action[],
+  algorithm: HashAlgorithm = HashAlgorithm.Djb2
 ): string {
   const stateCanon = canonicalizeState(state);
   const actionsACanon = canonicalizeActions(actionsA);
   const actionsBCanon = canonicalizeActions(actionsB);
   const combined = `${stateCanon}||${actionsACanon}||${actionsBCanon}`;
-  return hashToHex(combined);
+  return hashString(combined, algorithm);
 }
 
 /**
@@ -146,41 +275,3 @@ export function hashTurn(
 export function statesEqual(a: GameState, b: GameState): boolean {
   return canonicalizeState(a) === canonicalizeState(b);
 }
-
-// ============================================================================
-// Replay Types
-// ============================================================================
-
-export interface ReplayTurn {
-  readonly turn: number;
-  readonly stateHash: string;
-  readonly actionsA: readonly Action[];
-  readonly actionsB: readonly Action[];
-  readonly log: TurnLog;
-}
-
-export interface Replay {
-  readonly initialState: GameState;
-  readonly turns: readonly ReplayTurn[];
-  readonly finalState: GameState;
-  readonly winner: "A" | "B" | null;
-}
-
-/**
- * Create a replay entry for a turn
- */
-export function createReplayTurn(
-  state: GameState,
-  actionsA: readonly Action[],
-  actionsB: readonly Action[],
-  log: TurnLog
-): ReplayTurn {
-  return {
-    turn: state.turn,
-    stateHash: hashState(state),
-    actionsA: [...actionsA],
-    actionsB: [...actionsB],
-    log,
-  };
-}
-
@@ -2,4 +2,6 @@
  * Hash module exports
  */
 export * from "./canonical.js";
-
+export * from "./replay.js";
+export * from "./repetition.js";
+export * from "./sha256.js";
@@ -0,0 +1,54 @@
+/**
+ * @quantaris/engine - Repetition Detection
+ *
+ * Detects positions that recur during a game, using SHA-256 position
+ * hashes (hashPositionSha256), which ignore the turn counter.
+ */
+
+import { resolveTurn } from "../resolution/pipeline.js";
+import type { Replay } from "./replay.js";
+import type { Sha256PositionHash } from "../core/types.js";
+import { hashPositionSha256 } from "./canonical.js";
+
+export interface RepetitionResult {
+  /** Position hash that repeated */
+  readonly hash: string;
+  /** Indices in the history where it occurred, in order */
+  readonly indices: readonly number[];
+}
+
+/**
+ * SHA-256 position hashes of every state in a replay: the initial state,
+ * then the state after each turn.
+ */
+export function getPositionHistory(replay: Replay): Sha256PositionHash[] {
+  const history = [hashPositionSha256(replay.initialState)];
+  let state = replay.initialState;
+  for (const turn of replay.turns) {
+    state = resolveTurn({ state, actionsA: turn.actionsA, actionsB: turn.actionsB, positionHistory: history }).state;
+    history.push(hashPositionSha256(state));
+  }
+  return history;
+}
+
+/**
+ * Find the first position to occur `count` times.
+ *
+ * Takes a sequence of hashPosition values (not hashState values, which
+ * include the turn and never repeat) or a Replay. Returns null if no
+ * position occurs `count` times.
+ */
+export function detectRepetition(history: readonly string[] | Replay, count: number): RepetitionResult | null {
+  const hashes = "turns" in history ? getPositionHistory(history) : history;
+  const seen = new Map<string, number[]>();
+
+  for (const [index, hash] of hashes.entries()) {
+    const indices = [...(seen.get(hash) ?? []), index];
+    if (indices.length >= count) {
+      return { hash, indices };
+    }
+    seen.set(hash, indices);
+  }
+
+  return null;
+}
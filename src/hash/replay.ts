@@ -0,0 +1,168 @@
+/**
+ * @quantaris/engine - Replays
+ *
+ * Replay records and their hash chain. Each turn's chainHash covers the
+ * previous chain value and a SHA-256 hashTurn of the state, so dropping,
+ * reordering or splicing turns breaks every link after the edit.
+ */
+
+import type { Action, GameState, PlayerId, TurnLog } from "../core/types.js";
+import { HashAlgorithm, canonicalizeActions, hashState, hashString, hashTurn } from "./canonical.js";
+
+// ============================================================================
+// Replay Types
+// ============================================================================
+
+export interface ReplayTurn {
+  readonly turn: number;
+  readonly stateHash: string;
+  readonly actionsA: readonly Action[];
+  readonly actionsB: readonly Action[];
+  readonly log: TurnLog;
+  /** SHA-256 hashTurn of the state and both action sets */
+  readonly turnHash: string;
+  /** SHA-256 over the previous chainHash, turn, turnHash and both action sets */
+  readonly chainHash: string;
+}
+
+export interface Replay {
+  readonly initialState: GameState;
+  readonly turns: readonly ReplayTurn[];
+  readonly finalState: GameState;
+  readonly winner: PlayerId | null;
+  /** chainHash of the last turn (the genesis hash for an empty replay) */
+  readonly rootHash: string;
+}
+
+export interface ReplayTurnOptions {
+  /** chainHash of the previous turn, or getReplayGenesisHash(initialState) for the first */
+  readonly previousChainHash: string;
+  /** Algorithm for stateHash (defaults to djb2; turnHash and the chain are always SHA-256) */
+  readonly algorithm?: HashAlgorithm;
+}
+
+// ============================================================================
+// Hash Chain
+// ============================================================================
+
+/**
+ * Chain value before the first turn: the SHA-256 state hash of the
+ * initial state, so the chain also commits to where the game started.
+ */
+export function getReplayGenesisHash(initialState: GameState): string {
+  return hashState(initialState, HashAlgorithm.Sha256);
+}
+
+/**
+ * The actions are chained again next to turnHash so that verifyReplayChain
+ * catches edits to them without re-simulating the game
+ */
+function hashChainLink(
+  previousChainHash: string,
+  turn: number,
+  turnHash: string,
+  actionsA: readonly Action[],
+  actionsB: readonly Action[]
+): string {
+  const link = [previousChainHash, turn, turnHash, canonicalizeActions(actionsA), canonicalizeActions(actionsB)];
+  return hashString(link.join("||"), HashAlgorithm.Sha256);
+}
+
+/**
+ * Create a replay entry for a turn.
+ *
+ * `previousChainHash` is the previous turn's chainHash; for the first turn
+ * pass getReplayGenesisHash(initialState).
+ */
+export function createReplayTurn(
+  state: GameState,
+  actionsA: readonly Action[],
+  actionsB: readonly Action[],
+  log: TurnLog,
+  options: ReplayTurnOptions
+): ReplayTurn {
+  const turnHash = hashTurn(state, actionsA, actionsB, HashAlgorithm.Sha256);
+
+  return {
+    turn: state.turn,
+    stateHash: hashState(state, options.algorithm),
+    actionsA: [...actionsA],
+    actionsB: [...actionsB],
+    log,
+    turnHash,
+    chainHash: hashChainLink(options.previousChainHash, state.turn, turnHash, actionsA, actionsB),
+  };
+}
+
+/**
+ * Assemble a Replay from its turns, sealing it with the chain root
+ */
+export function createReplay(
+  initialState: GameState,
+  turns: readonly ReplayTurn[],
+  finalState: GameState
+): Replay {
+  return {
+    initialState,
+    turns,
+    finalState,
+    winner: finalState.winner,
+    rootHash: turns.at(-1)?.chainHash ?? getReplayGenesisHash(initialState),
+  };
+}
+
+// ============================================================================
+// Chain Verification
+// ============================================================================
+
+export type ReplayChainResult =
+  | { readonly valid: true; readonly rootHash: string }
+  | {
+      readonly valid: false;
+      /** Index into replay.turns of the first broken link (turns.length for the root) */
+      readonly turnIndex: number;
+      readonly expected: string;
+      readonly actual: string;
+      readonly error: string;
+    };
+
+/**
+ * Recompute the hash chain from the initial state and report the first
+ * link that does not match.
+ *
+ * This proves the turn sequence has not been edited since it was chained.
+ * It does not re-run the game: use verifyReplay to check that the turns
+ * actually follow from each other and that each turnHash matches its state.
+ * Turn logs are not part of the chain, so a parsed replay can be checked too.
+ */
+export function verifyReplayChain(
+  replay: Omit<Replay, "turns"> & { readonly turns: readonly Omit<ReplayTurn, "log">[] }
+): ReplayChainResult {
+  let chain = getReplayGenesisHash(replay.initialState);
+
+  for (const [turnIndex, turn] of replay.turns.entries()) {
+    const expected = hashChainLink(chain, turn.turn, turn.turnHash, turn.actionsA, turn.actionsB);
+    if (turn.chainHash !== expected) {
+      return {
+        valid: false,
+        turnIndex,
+        expected,
+        actual: turn.chainHash,
+        error: `Chain broken at turn ${turn.turn} (index ${turnIndex})`,
+      };
+    }
+    chain = expected;
+  }
+
+  if (replay.rootHash !== chain) {
+    return {
+      valid: false,
+      turnIndex: replay.turns.length,
+      expected: chain,
+      actual: replay.rootHash,
+      error: "Root hash does not match the last turn",
+    };
+  }
+
+  return { valid: true, rootHash: chain };
+}
@@ -43,14 +43,18 @@ export {
   type Position,
   type Quantar,
   type Core,
+  type TerrainCell,
   type Action,
   type MoveAction,
   type PulseAction,
   type ShieldAction,
   type PlayerActions,
   type GameState,
+  type GameRules,
   type TurnInput,
+  type Sha256PositionHash,
   type TurnEvent,
+  type DamageSource,
   type TurnLog,
   type TurnResult,
   // Enums (runtime + type)
@@ -61,6 +65,10 @@ export {
   GamePhase,
   EntityType,
   EventType,
+  TerrainType,
+  TiebreakPolicy,
+  VisibilityMode,
+  TERRAIN_PROPERTIES,
   ALL_DIRECTIONS,
   ALL_PULSE_DIRECTIONS,
   DIAGONAL_DIRECTIONS,
@@ -72,14 +80,21 @@ export {
   SHIELD_REDUCTION,
   QUANTARS_PER_PLAYER,
   MAX_TURNS,
+  // Rules
+  DEFAULT_RULES,
+  createRules,
+  getRules,
+  rulesEqual,
   // State functions
   createInitialState,
   getQuantar,
+  isValidQuantarId,
   getPlayerQuantars,
   getPlayerCore,
   isInBounds,
   positionsEqual,
   getEntityAt,
+  getTerrainAt,
   getOpponent,
 } from "./core/index.js";
 
@@ -89,8 +104,10 @@ export {
   type ValidationSuccess,
   type ValidationError,
   type ValidationErrorCode,
+  type ValidationReport,
   validateAction,
   validatePlayerActions,
+  validateAllPlayerActions,
   isValidDirection,
   isValidPulseDirection,
   isDiagonalPulse,
@@ -98,21 +115,172 @@ export {
   getPulseDirectionDelta,
   applyDirection,
   applyPulseDirection,
+  type LegalActionOptions,
+  getLegalActions,
+  enumerateLegalTurns,
+  type ValidationWarning,
+  type ValidationWarningCode,
+  lintPlayerActions,
 } from "./actions/index.js";
 
+// Untrusted input parsing
+export {
+  type ParseErrorCode,
+  type ParseIssue,
+  type ParseSuccess,
+  type ParseFailure,
+  type ParseResult,
+  type UnverifiedTurnLog,
+  type ParsedReplayTurn,
+  type ParsedReplay,
+  formatParseIssue,
+  parseGameState,
+  parseActions,
+  parseCanonicalState,
+  parseCanonicalActions,
+  parseReplay,
+} from "./parse/index.js";
+
+// Scenarios
+export {
+  type Scenario,
+  type ScenarioCore,
+  type ScenarioQuantar,
+  type ScenarioTerrain,
+  type ScenarioResult,
+  type ScenarioSuccess,
+  type ScenarioError,
+  type ScenarioErrorCode,
+  loadScenario,
+  parseScenario,
+} from "./scenario/index.js";
+
 // Turn resolution
-export { resolveTurn } from "./resolution/index.js";
+export {
+  type ResolutionContext,
+  type ResolutionQuantar,
+  type ResolutionCore,
+  type ResolutionEntity,
+  type ResolutionHooks,
+  type ResolutionPhase,
+  type ResolutionPipeline,
+  type ResolutionOptions,
+  type DamageAppliedEvent,
+  type EntityDestroyedEvent,
+  type PhaseSnapshot,
+  type SnapshotQuantar,
+  type SnapshotCore,
+  type SnapshotTurnResult,
+  PhaseName,
+  DEFAULT_PIPELINE,
+  movePhase,
+  shieldPhase,
+  pulsePhase,
+  damagePhase,
+  suddenDeathPhase,
+  cleanupPhase,
+  winConditionPhase,
+  insertPhaseBefore,
+  insertPhaseAfter,
+  replacePhase,
+  removePhase,
+  getQuantarById,
+  getEntityAtPosition,
+  getTerrainAtPosition,
+  resolveTurn,
+  resolveTurnWithSnapshots,
+} from "./resolution/index.js";
 
 // Hashing and replay
 export {
   type Replay,
   type ReplayTurn,
+  type ReplayTurnOptions,
+  type ReplayChainResult,
+  type RepetitionResult,
+  HashAlgorithm,
+  CANONICAL_FORMAT_VERSION,
+  compareCodePoints,
   canonicalizeState,
+  canonicalizePosition,
   canonicalizeActions,
   hashState,
+  hashPosition,
+  hashPositionSha256,
+  getHashAlgorithm,
   hashActions,
   hashTurn,
   statesEqual,
   createReplayTurn,
+  createReplay,
+  getReplayGenesisHash,
+  verifyReplayChain,
+  getPositionHistory,
+  detectRepetition,
+  sha256,
 } from "./hash/index.js";
 
+// Replay verification
+export {
+  type ReplayField,
+  type ReplayDivergence,
+  type ReplayVerification,
+  verifyReplay,
+  type GameRecorderOptions,
+  type RecordTurnResult,
+  GameRecorder,
+  type ApplyLogResult,
+  type LogConsistencyResult,
+  applyTurnLog,
+  checkTurnLogConsistency,
+} from "./replay/index.js";
+
+// Notation (QGN)
+export {
+  type QgnIssue,
+  type QgnParseFailure,
+  type QgnParseResult,
+  type QgnResult,
+  type QgnHeaders,
+  type QgnTurn,
+  type QgnGame,
+  QGN_HEADERS,
+  formatActionNotation,
+  parseActionNotation,
+  formatQgn,
+  parseQgn,
+  replayToQgn,
+} from "./notation/index.js";
+
+// State sync
+export {
+  type QuantarPatch,
+  type CorePatch,
+  type StatePatch,
+  type PatchErrorCode,
+  type PatchResult,
+  type DiffOptions,
+  diffStates,
+  applyStatePatch,
+} from "./sync/index.js";
+
+// Fog of war
+export {
+  HIDDEN_QUANTAR_ID,
+  HIDDEN_POSITION,
+  getVisibleCells,
+  projectStateForPlayer,
+  filterLogForPlayer,
+} from "./visibility/index.js";
+
+// Commit-reveal protocol
+export {
+  type RevealResult,
+  type RoundErrorCode,
+  type RoundStepResult,
+  MIN_NONCE_LENGTH,
+  RoundPhase,
+  createCommitment,
+  verifyReveal,
+  CommitRevealRound,
+} from "./protocol/index.js";
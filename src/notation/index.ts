@@ -0,0 +1,4 @@
+/**
+ * Notation module exports
+ */
+export * from "./qgn.js";
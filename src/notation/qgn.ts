@@ -0,0 +1,370 @@
+/**
+ * @quantaris/engine - Quantaris Game Notation (QGN)
+ *
+ * Compact text for actions and whole games, for pasting into chat and bug
+ * reports. One action is `<quantarId>:<M|P|S>[:<direction>]`:
+ *
+ *   A1:M:N A2:P:NE A3:S
+ *
+ * A game is PGN-like: `[Key "value"]` headers, then one numbered line per
+ * turn with player A's actions, a slash, and player B's (`-` for none):
+ *
+ *   [PlayerA "alice"]
+ *   [Result "A"]
+ *
+ *   1. A1:M:N A2:P:NE A3:S / B1:S B2:S B3:S
+ *
+ * `;` starts a comment that runs to the end of the line.
+ */
+
+import type { Action, Direction, PlayerId, PulseDirection } from "../core/types.js";
+import { ActionType, ALL_DIRECTIONS, ALL_PULSE_DIRECTIONS, GamePhase } from "../core/types.js";
+import { compareCodePoints } from "../hash/canonical.js";
+import type { Replay } from "../hash/replay.js";
+import type { ParseSuccess } from "../parse/guards.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A problem in QGN text, located by 1-based line and column */
+export interface QgnIssue {
+  readonly line: number;
+  readonly column: number;
+  readonly message: string;
+}
+
+export interface QgnParseFailure {
+  readonly valid: false;
+  /** Every issue found, in text order */
+  readonly errors: readonly QgnIssue[];
+}
+
+export type QgnParseResult<T> = ParseSuccess<T> | QgnParseFailure;
+
+/** Value of the Result header: the winner, a draw, or "*" for unfinished */
+export type QgnResult = PlayerId | "draw" | "*";
+
+/** Header names and values, in file order */
+export type QgnHeaders = Readonly<Record<string, string>>;
+
+export interface QgnTurn {
+  readonly turn: number;
+  readonly actionsA: readonly Action[];
+  readonly actionsB: readonly Action[];
+}
+
+export interface QgnGame {
+  readonly headers: QgnHeaders;
+  readonly turns: readonly QgnTurn[];
+}
+
+/** Headers with a defined meaning; any other well-formed key is kept as-is */
+export const QGN_HEADERS = ["PlayerA", "PlayerB", "Date", "Ruleset", "Result"] as const;
+
+const QGN_RESULTS: readonly QgnResult[] = ["A", "B", "draw", "*"];
+
+const TYPE_LETTERS = {
+  [ActionType.Move]: "M",
+  [ActionType.Pulse]: "P",
+  [ActionType.Shield]: "S",
+} as const;
+
+/** Marks a player with no actions in a turn line */
+const NO_ACTIONS = "-";
+const PLAYER_SEPARATOR = "/";
+const COMMENT = ";";
+const HEADER_KEY = /^[A-Za-z][A-Za-z0-9_]*$/;
+/** Characters that would split or end an action token */
+const RESERVED_ID_CHARS = /[\s:/;[\]"]/;
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+interface Token {
+  readonly text: string;
+  readonly line: number;
+  readonly column: number;
+}
+
+/** Split one line into whitespace-separated tokens, stopping at a comment */
+function tokenizeLine(text: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[^\s;]+|;/g;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0] === COMMENT) break;
+    tokens.push({ text: match[0], line, column: match.index! + 1 });
+  }
+  return tokens;
+}
+
+function issue(issues: QgnIssue[], at: { line: number; column: number }, message: string): void {
+  issues.push({ line: at.line, column: at.column, message });
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function parseActionToken(token: Token, issues: QgnIssue[]): Action | null {
+  const [quantarId = "", letter, direction, ...extra] = token.text.split(":");
+  const typeColumn = token.column + quantarId.length + 1;
+  const directionColumn = typeColumn + (letter?.length ?? 0) + 1;
+
+  if (letter === undefined) {
+    issue(issues, token, `expected <quantarId>:<M|P|S>[:<direction>], got "${token.text}"`);
+    return null;
+  }
+  if (quantarId === "") {
+    issue(issues, token, "missing quantar id");
+    return null;
+  }
+  if (extra.length > 0) {
+    const column = directionColumn + (direction?.length ?? 0);
+    issue(issues, { line: token.line, column }, "unexpected text after direction");
+    return null;
+  }
+
+  switch (letter) {
+    case TYPE_LETTERS[ActionType.Move]:
+      if (!(ALL_DIRECTIONS as readonly string[]).includes(direction ?? "")) {
+        issue(
+          issues,
+          { line: token.line, column: directionColumn },
+          `expected move direction ${ALL_DIRECTIONS.join("|")}`
+        );
+        return null;
+      }
+      return { type: ActionType.Move, quantarId, direction: direction as Direction };
+
+    case TYPE_LETTERS[ActionType.Pulse]:
+      if (!(ALL_PULSE_DIRECTIONS as readonly string[]).includes(direction ?? "")) {
+        issue(
+          issues,
+          { line: token.line, column: directionColumn },
+          `expected pulse direction ${ALL_PULSE_DIRECTIONS.join("|")}`
+        );
+        return null;
+      }
+      return { type: ActionType.Pulse, quantarId, direction: direction as PulseDirection };
+
+    case TYPE_LETTERS[ActionType.Shield]:
+      if (direction !== undefined) {
+        issue(issues, { line: token.line, column: directionColumn - 1 }, "shield takes no direction");
+        return null;
+      }
+      return { type: ActionType.Shield, quantarId };
+
+    default:
+      issue(issues, { line: token.line, column: typeColumn }, `expected action type M, P or S, got "${letter}"`);
+      return null;
+  }
+}
+
+function parseActionTokens(tokens: readonly Token[], issues: QgnIssue[]): Action[] {
+  if (tokens.length === 1 && tokens[0]!.text === NO_ACTIONS) {
+    return [];
+  }
+  const actions: Action[] = [];
+  for (const token of tokens) {
+    const action = parseActionToken(token, issues);
+    if (action) {
+      actions.push(action);
+    }
+  }
+  return actions;
+}
+
+function formatAction(action: Action): string {
+  if (action.quantarId === "" || action.quantarId === NO_ACTIONS || RESERVED_ID_CHARS.test(action.quantarId)) {
+    throw new RangeError(`Quantar id ${JSON.stringify(action.quantarId)} cannot be written in QGN`);
+  }
+  const head = `${action.quantarId}:${TYPE_LETTERS[action.type]}`;
+  return action.type === ActionType.Shield ? head : `${head}:${action.direction}`;
+}
+
+/**
+ * Write actions as QGN, e.g. "A1:M:N A2:P:NE A3:S".
+ *
+ * Actions are ordered by quantar id like canonicalizeActions, so equal
+ * action sets always produce the same text. Throws RangeError for quantar
+ * ids containing whitespace or any of `: / ; [ ] "`.
+ */
+export function formatActionNotation(actions: readonly Action[]): string {
+  if (actions.length === 0) {
+    return NO_ACTIONS;
+  }
+  return [...actions]
+    .sort((a, b) => compareCodePoints(a.quantarId, b.quantarId))
+    .map(formatAction)
+    .join(" ");
+}
+
+/**
+ * Parse a QGN action list such as "A1:M:N A2:P:NE A3:S" ("-" for none).
+ *
+ * Only the notation is checked; ownership, bounds and one action per
+ * quantar are left to validatePlayerActions.
+ */
+export function parseActionNotation(text: string): QgnParseResult<Action[]> {
+  const issues: QgnIssue[] = [];
+  const tokens = text.split("\n").flatMap((line, i) => tokenizeLine(line, i + 1));
+  const actions = parseActionTokens(tokens, issues);
+  return issues.length > 0 ? { valid: false, errors: issues } : { valid: true, value: actions };
+}
+
+// ============================================================================
+// Games
+// ============================================================================
+
+function escapeHeaderValue(value: string): string {
+  return value.replace(/[\\"]/g, (c) => `\\${c}`).replace(/\n/g, "\\n");
+}
+
+function unescapeHeaderValue(value: string): string {
+  return value.replace(/\\(.)/g, (_, c: string) => (c === "n" ? "\n" : c));
+}
+
+/**
+ * Write a game as QGN: headers, a blank line, then one line per turn.
+ * Throws RangeError for malformed header keys or unwritable quantar ids.
+ */
+export function formatQgn(game: QgnGame): string {
+  const headers = Object.entries(game.headers).map(([key, value]) => {
+    if (!HEADER_KEY.test(key)) {
+      throw new RangeError(`Invalid QGN header key ${JSON.stringify(key)}`);
+    }
+    return `[${key} "${escapeHeaderValue(value)}"]`;
+  });
+  const turns = game.turns.map(
+    (t) => `${t.turn}. ${formatActionNotation(t.actionsA)} ${PLAYER_SEPARATOR} ${formatActionNotation(t.actionsB)}`
+  );
+  return [...headers, ...(headers.length > 0 && turns.length > 0 ? [""] : []), ...turns].join("\n") + "\n";
+}
+
+function parseHeaderLine(
+  text: string,
+  line: number,
+  headers: Record<string, string>,
+  issues: QgnIssue[]
+): void {
+  const match = /^(\s*)\[([^\s"\]]*)\s+"((?:[^"\\\n]|\\.)*)"\]\s*(?:;.*)?$/.exec(text);
+  if (!match) {
+    issue(issues, { line, column: text.search(/\S/) + 1 }, 'expected header [Key "value"]');
+    return;
+  }
+
+  const [, indent = "", key = "", raw = ""] = match;
+  const keyColumn = indent.length + 2;
+  if (!HEADER_KEY.test(key)) {
+    issue(issues, { line, column: keyColumn }, `invalid header key "${key}"`);
+    return;
+  }
+  if (Object.hasOwn(headers, key)) {
+    issue(issues, { line, column: keyColumn }, `duplicate header "${key}"`);
+    return;
+  }
+
+  const value = unescapeHeaderValue(raw);
+  if (key === "Result" && !(QGN_RESULTS as readonly string[]).includes(value)) {
+    issue(issues, { line, column: keyColumn + key.length + 2 }, `expected result ${QGN_RESULTS.join(", ")}`);
+    return;
+  }
+  headers[key] = value;
+}
+
+function parseTurnLine(text: string, line: number, expectedTurn: number | null, issues: QgnIssue[]): QgnTurn | null {
+  const tokens = tokenizeLine(text, line);
+  const [number, ...rest] = tokens;
+  if (!number) {
+    return null;
+  }
+
+  const numberMatch = /^(\d+)\.$/.exec(number.text);
+  if (!numberMatch) {
+    issue(issues, number, `expected turn number like "1.", got "${number.text}"`);
+    return null;
+  }
+  const turn = Number(numberMatch[1]);
+  if (turn < 1 || (expectedTurn !== null && turn !== expectedTurn)) {
+    issue(issues, number, expectedTurn === null ? "turn numbers must be positive" : `expected turn ${expectedTurn}`);
+  }
+
+  const separators = rest.filter((t) => t.text === PLAYER_SEPARATOR);
+  if (separators.length !== 1) {
+    const at = separators[1] ?? { line, column: text.length + 1 };
+    issue(issues, at, `expected exactly one "${PLAYER_SEPARATOR}" between player A's and player B's actions`);
+    return null;
+  }
+
+  const split = rest.indexOf(separators[0]!);
+  const sideA = rest.slice(0, split);
+  const sideB = rest.slice(split + 1);
+  for (const [side, tokensForSide, at] of [
+    ["A", sideA, number],
+    ["B", sideB, separators[0]!],
+  ] as const) {
+    if (tokensForSide.length === 0) {
+      issue(issues, at, `missing actions for player ${side} (use "${NO_ACTIONS}" for none)`);
+    }
+  }
+
+  const before = issues.length;
+  const actionsA = parseActionTokens(sideA, issues);
+  const actionsB = parseActionTokens(sideB, issues);
+  return issues.length === before ? { turn, actionsA, actionsB } : null;
+}
+
+/**
+ * Parse a QGN game.
+ *
+ * Headers must come before the first turn, turn numbers must count up by
+ * one, and Result (if present) must be A, B, draw or *. All problems are
+ * reported with their line and column.
+ */
+export function parseQgn(text: string): QgnParseResult<QgnGame> {
+  const issues: QgnIssue[] = [];
+  const headers: Record<string, string> = {};
+  const turns: QgnTurn[] = [];
+  let expectedTurn: number | null = null;
+
+  for (const [i, raw] of text.split(/\r?\n/).entries()) {
+    const line = i + 1;
+    const content = raw.trimStart();
+    if (content === "" || content.startsWith(COMMENT)) {
+      continue;
+    }
+
+    if (content.startsWith("[")) {
+      if (expectedTurn !== null) {
+        issue(issues, { line, column: raw.length - content.length + 1 }, "headers must come before the first turn");
+        continue;
+      }
+      parseHeaderLine(raw, line, headers, issues);
+      continue;
+    }
+
+    const turn = parseTurnLine(raw, line, expectedTurn, issues);
+    const number = /^\s*(\d+)\./.exec(raw)?.[1];
+    expectedTurn = (number !== undefined ? Number(number) : (expectedTurn ?? 0)) + 1;
+    if (turn) {
+      turns.push(turn);
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, errors: issues } : { valid: true, value: { headers, turns } };
+}
+
+/**
+ * Describe a recorded game as QGN. Result is filled in from the replay
+ * (`*` while the game is unfinished) unless `headers` sets it.
+ */
+export function replayToQgn(replay: Replay, headers: QgnHeaders = {}): QgnGame {
+  const result: QgnResult =
+    replay.finalState.phase !== GamePhase.Ended ? "*" : (replay.winner ?? "draw");
+  return {
+    headers: { ...headers, Result: headers.Result ?? result },
+    turns: replay.turns.map(({ turn, actionsA, actionsB }) => ({ turn, actionsA, actionsB })),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * @quantaris/engine - Action Parsing
+ *
+ * Strict structural parsing of action lists received from clients.
+ * Game-dependent checks (ownership, bounds, one action per quantar) are
+ * left to validatePlayerActions.
+ */
+
+import type { Action } from "../core/types.js";
+import {
+  ActionType,
+  ALL_DIRECTIONS,
+  ALL_PULSE_DIRECTIONS,
+} from "../core/types.js";
+import type { ParseIssue, ParseResult } from "./guards.js";
+import { checkId, checkObject, checkOneOf, isRecord, joinPath, report } from "./guards.js";
+
+const ACTION_TYPES = Object.values(ActionType);
+
+/**
+ * Parse a single action, reporting problems into issues
+ */
+function parseActionAt(value: unknown, path: string, issues: ParseIssue[]): Action | null {
+  if (!isRecord(value)) {
+    report(issues, path, "expected object");
+    return null;
+  }
+  if (!checkOneOf(value.type, joinPath(path, "type"), ACTION_TYPES, issues)) {
+    return null;
+  }
+
+  const { quantarId, direction } = value;
+  switch (value.type) {
+    case ActionType.Move: {
+      if (!checkObject(value, path, ["type", "quantarId", "direction"], [], issues)) return null;
+      const idOk = checkId(quantarId, joinPath(path, "quantarId"), issues);
+      const dirOk = checkOneOf(direction, joinPath(path, "direction"), ALL_DIRECTIONS, issues);
+      return idOk && dirOk ? { type: ActionType.Move, quantarId, direction } : null;
+    }
+
+    case ActionType.Pulse: {
+      if (!checkObject(value, path, ["type", "quantarId", "direction"], [], issues)) return null;
+      const idOk = checkId(quantarId, joinPath(path, "quantarId"), issues);
+      const dirOk = checkOneOf(direction, joinPath(path, "direction"), ALL_PULSE_DIRECTIONS, issues);
+      return idOk && dirOk ? { type: ActionType.Pulse, quantarId, direction } : null;
+    }
+
+    case ActionType.Shield: {
+      if (!checkObject(value, path, ["type", "quantarId"], [], issues)) return null;
+      return checkId(quantarId, joinPath(path, "quantarId"), issues)
+        ? { type: ActionType.Shield, quantarId }
+        : null;
+    }
+  }
+}
+
+/**
+ * Parse an untrusted list of actions.
+ *
+ * Every malformed entry is reported with its path (e.g. "[1].direction").
+ * The returned actions are fresh objects containing only known fields.
+ */
+export function parseActions(input: unknown): ParseResult<Action[]> {
+  const issues: ParseIssue[] = [];
+
+  if (!Array.isArray(input)) {
+    report(issues, "", "expected array of actions");
+    return { valid: false, errors: issues };
+  }
+
+  const actions: Action[] = [];
+  for (const [i, value] of input.entries()) {
+    const action = parseActionAt(value, joinPath("", i), issues);
+    if (action) {
+      actions.push(action);
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, errors: issues } : { valid: true, value: actions };
+}
@@ -0,0 +1,252 @@
+/**
+ * @quantaris/engine - Canonical String Parsing
+ *
+ * Parses the strings produced by canonicalizeState and canonicalizeActions
+ * back into values. Only strings in canonical form are accepted (segment
+ * order, sorting, number formatting), so for any accepted string
+ * `canonicalizeState(parseCanonicalState(s).value) === s`.
+ *
+ * Issue paths name the offending `|`-separated segment, e.g. "[4]".
+ */
+
+import type { Action, Direction, GameRules, GameState, PlayerId, PulseDirection } from "../core/types.js";
+import { ActionType, ALL_DIRECTIONS, ALL_PULSE_DIRECTIONS, Player } from "../core/types.js";
+import { DEFAULT_RULES, NUMERIC_RULE_KEYS, RULE_KEYS } from "../core/rules.js";
+import { canonicalizeActions, canonicalizeState, compareCodePoints } from "../hash/canonical.js";
+import type { ParseIssue, ParseResult } from "./guards.js";
+import { joinPath, report } from "./guards.js";
+import { parseGameState } from "./state.js";
+
+/** Integers as canonicalizeState writes them: no sign on zero, no leading zeros */
+const INTEGER = "(0|-?[1-9][0-9]*)";
+const POSITION = `${INTEGER},${INTEGER}`;
+
+const TURN_SEGMENT = new RegExp(`^T:${INTEGER}$`);
+const PHASE_SEGMENT = /^P:(.*)$/;
+const WINNER_SEGMENT = /^W:(A|B|null)$/;
+const CORE_SEGMENT = new RegExp(`^C:(A|B):${POSITION}:${INTEGER}$`);
+/** Ids follow isValidQuantarId, so a stray ':' is reported against the segment */
+const QUANTAR_SEGMENT = new RegExp(`^Q:([A-Za-z0-9_]+):(A|B):${POSITION}:${INTEGER}$`);
+const TERRAIN_SEGMENT = new RegExp(`^X:([^:]+):${POSITION}$`);
+const RULE_ENTRY = /^([A-Za-z]+)=(.+)$/;
+const INTEGER_VALUE = new RegExp(`^${INTEGER}$`);
+
+// ============================================================================
+// Segment Parsers
+// ============================================================================
+
+function parseRulesSegment(segment: string, path: string, issues: ParseIssue[]): GameRules | null {
+  const overrides: Record<string, number | string> = {};
+  let lastIndex = -1;
+  let ok = true;
+
+  for (const entry of segment.slice(2).split(",")) {
+    const match = RULE_ENTRY.exec(entry);
+    const key = match?.[1] as keyof GameRules | undefined;
+    const index = key ? RULE_KEYS.indexOf(key) : -1;
+    if (!match || !key || index === -1) {
+      report(issues, path, `unknown rule entry "${entry}"`);
+      ok = false;
+      continue;
+    }
+    if (index <= lastIndex) {
+      report(issues, path, `rule "${key}" out of canonical order`);
+      ok = false;
+    }
+    lastIndex = index;
+
+    const raw = match[2]!;
+    const numeric = (NUMERIC_RULE_KEYS as readonly string[]).includes(key);
+    if (numeric && !INTEGER_VALUE.test(raw)) {
+      report(issues, path, `rule "${key}" must be an integer, got "${raw}"`);
+      ok = false;
+      continue;
+    }
+    const value = numeric ? Number(raw) : raw;
+    if (value === DEFAULT_RULES[key]) {
+      report(issues, path, `rule "${key}" equals the default and must be omitted`);
+      ok = false;
+    }
+    overrides[key] = value;
+  }
+
+  return ok ? ({ ...DEFAULT_RULES, ...overrides } as GameRules) : null;
+}
+
+function parseActionSegment(segment: string): Action | null {
+  const type = segment.slice(0, 2);
+  if (type === "S:") {
+    const quantarId = segment.slice(2);
+    return quantarId ? { type: ActionType.Shield, quantarId } : null;
+  }
+
+  const split = segment.lastIndexOf(":");
+  const quantarId = segment.slice(2, split);
+  const direction = segment.slice(split + 1);
+  if (!quantarId || split < 2) {
+    return null;
+  }
+  if (type === "M:" && (ALL_DIRECTIONS as readonly string[]).includes(direction)) {
+    return { type: ActionType.Move, quantarId, direction: direction as Direction };
+  }
+  if (type === "P:" && (ALL_PULSE_DIRECTIONS as readonly string[]).includes(direction)) {
+    return { type: ActionType.Pulse, quantarId, direction: direction as PulseDirection };
+  }
+  return null;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a string produced by canonicalizeState.
+ *
+ * The syntax is checked first, with issues located by segment. The
+ * resulting state then goes through parseGameState, so bounds and
+ * invariants are reported exactly as for JSON input. Strings from
+ * canonicalizePosition (no turn) are not accepted.
+ */
+export function parseCanonicalState(input: unknown): ParseResult<GameState> {
+  const issues: ParseIssue[] = [];
+  if (typeof input !== "string") {
+    report(issues, "", "expected canonical state string");
+    return { valid: false, errors: issues };
+  }
+
+  const segments = input.split("|");
+  let index = 0;
+  const path = () => joinPath("", index);
+  /** Match the current segment and advance past it */
+  const consume = (pattern: RegExp, description: string): RegExpExecArray | null => {
+    const segment = segments[index];
+    const match = segment === undefined ? null : pattern.exec(segment);
+    if (!match) {
+      const message = segment === undefined ? `missing ${description}` : `expected ${description}, got "${segment}"`;
+      report(issues, path(), message);
+      return null;
+    }
+    index++;
+    return match;
+  };
+
+  const turn = consume(TURN_SEGMENT, "turn T:<n>");
+  const phase = turn && consume(PHASE_SEGMENT, "phase P:<phase>");
+  const winner = phase && consume(WINNER_SEGMENT, "winner W:<A|B|null>");
+  if (!turn || !phase || !winner) {
+    return { valid: false, errors: issues };
+  }
+
+  let rules: GameRules | undefined;
+  if (segments[index]?.startsWith("R:")) {
+    const parsed = parseRulesSegment(segments[index]!, path(), issues);
+    index++;
+    if (!parsed) {
+      return { valid: false, errors: issues };
+    }
+    rules = parsed;
+  }
+
+  const cores: Partial<Record<PlayerId, unknown>> = {};
+  for (const owner of [Player.A, Player.B]) {
+    const core = consume(CORE_SEGMENT, `core C:${owner}:<x>,<y>:<hp>`);
+    if (!core) {
+      return { valid: false, errors: issues };
+    }
+    if (core[1] !== owner) {
+      report(issues, joinPath("", index - 1), `expected core for player ${owner}`);
+      return { valid: false, errors: issues };
+    }
+    cores[owner] = { owner, position: { x: Number(core[2]), y: Number(core[3]) }, hp: Number(core[4]) };
+  }
+
+  const quantars: unknown[] = [];
+  let lastId: string | null = null;
+  while (segments[index]?.startsWith("Q:")) {
+    const quantar = consume(QUANTAR_SEGMENT, "quantar Q:<id>:<owner>:<x>,<y>:<hp>");
+    if (!quantar) {
+      index++;
+      continue;
+    }
+    const [, id = "", owner, x, y, hp] = quantar;
+    if (lastId !== null && compareCodePoints(lastId, id) > 0) {
+      report(issues, joinPath("", index - 1), `quantar "${id}" out of canonical order (sorted by id)`);
+    }
+    lastId = id;
+    quantars.push({ id, owner, position: { x: Number(x), y: Number(y) }, hp: Number(hp) });
+  }
+
+  const terrain: unknown[] = [];
+  let last: { x: number; y: number } | null = null;
+  while (index < segments.length) {
+    const cell = consume(TERRAIN_SEGMENT, "terrain X:<type>:<x>,<y>");
+    if (!cell) {
+      index++;
+      continue;
+    }
+    const position = { x: Number(cell[2]), y: Number(cell[3]) };
+    if (last && (position.y < last.y || (position.y === last.y && position.x < last.x))) {
+      report(issues, joinPath("", index - 1), "terrain out of canonical order (sorted by row, then column)");
+    }
+    last = position;
+    terrain.push({ type: cell[1], position });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, errors: issues };
+  }
+
+  const result = parseGameState({
+    turn: Number(turn[1]),
+    phase: phase[1],
+    winner: winner[1] === "null" ? null : winner[1],
+    cores,
+    quantars,
+    ...(terrain.length > 0 ? { terrain } : {}),
+    ...(rules ? { rules } : {}),
+  });
+  // Backstop for anything the segment checks let through (e.g. integers too large to print back)
+  if (result.valid && canonicalizeState(result.value) !== input) {
+    report(issues, "", "not in canonical form");
+    return { valid: false, errors: issues };
+  }
+  return result;
+}
+
+/**
+ * Parse a string produced by canonicalizeActions ("" for no actions).
+ *
+ * Actions must be sorted by quantar id. As with parseActions, game rules
+ * (ownership, bounds, one action per quantar) are left to
+ * validatePlayerActions.
+ */
+export function parseCanonicalActions(input: unknown): ParseResult<Action[]> {
+  const issues: ParseIssue[] = [];
+  if (typeof input !== "string") {
+    report(issues, "", "expected canonical actions string");
+    return { valid: false, errors: issues };
+  }
+  if (input === "") {
+    return { valid: true, value: [] };
+  }
+
+  const actions: Action[] = [];
+  for (const [i, segment] of input.split("|").entries()) {
+    const path = joinPath("", i);
+    const action = parseActionSegment(segment);
+    if (!action) {
+      report(issues, path, `expected M:<id>:<direction>, P:<id>:<direction> or S:<id>, got "${segment}"`);
+      continue;
+    }
+    const previous = actions.at(-1);
+    if (previous && compareCodePoints(previous.quantarId, action.quantarId) > 0) {
+      report(issues, path, `action for "${action.quantarId}" out of canonical order (sorted by quantar id)`);
+    }
+    actions.push(action);
+  }
+
+  if (issues.length === 0 && canonicalizeActions(actions) !== input) {
+    report(issues, "", "not in canonical form");
+  }
+  return issues.length > 0 ? { valid: false, errors: issues } : { valid: true, value: actions };
+}
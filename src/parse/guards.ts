@@ -0,0 +1,135 @@
+/**
+ * @quantaris/engine - Parse Guards
+ *
+ * Shared result types and low-level checks for the untrusted-input parsers.
+ */
+
+import { isValidQuantarId } from "../core/state.js";
+
+// ============================================================================
+// Result Types
+// ============================================================================
+
+export type ParseErrorCode =
+  | "INVALID_VALUE"
+  | "UNKNOWN_FIELD"
+  | "DUPLICATE_ID"
+  | "OVERLAPPING_ENTITIES"
+  | "INCONSISTENT_STATE";
+
+/** A single problem found in the input, located by path */
+export interface ParseIssue {
+  /** Location of the offending value, e.g. "quantars[2].position.x" */
+  readonly path: string;
+  readonly message: string;
+  readonly code: ParseErrorCode;
+}
+
+export interface ParseSuccess<T> {
+  readonly valid: true;
+  readonly value: T;
+}
+
+export interface ParseFailure {
+  readonly valid: false;
+  /** Every issue found, in input order */
+  readonly errors: readonly ParseIssue[];
+}
+
+export type ParseResult<T> = ParseSuccess<T> | ParseFailure;
+
+/**
+ * Format an issue as "path: message"
+ */
+export function formatParseIssue(issue: ParseIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+// ============================================================================
+// Checks (module-internal)
+// ============================================================================
+
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function report(
+  issues: ParseIssue[],
+  path: string,
+  message: string,
+  code: ParseErrorCode = "INVALID_VALUE"
+): void {
+  issues.push({ path, message, code });
+}
+
+/**
+ * Check that a value is an object with only the allowed keys and all of the
+ * required ones.
+ */
+export function checkObject(
+  value: unknown,
+  path: string,
+  required: readonly string[],
+  optional: readonly string[],
+  issues: ParseIssue[]
+): value is Record<string, unknown> {
+  if (!isRecord(value)) {
+    report(issues, path, "expected object");
+    return false;
+  }
+  for (const key of required) {
+    if (!(key in value)) {
+      report(issues, joinPath(path, key), "missing field");
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!required.includes(key) && !optional.includes(key)) {
+      report(issues, joinPath(path, key), "unexpected field", "UNKNOWN_FIELD");
+    }
+  }
+  return required.every((key) => key in value);
+}
+
+export function checkInteger(
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+  issues: ParseIssue[]
+): value is number {
+  if (typeof value === "number" && Number.isInteger(value) && value >= min && value <= max) {
+    return true;
+  }
+  if (max === Infinity) {
+    report(issues, path, min === -Infinity ? "expected integer" : `expected integer >= ${min}`);
+  } else {
+    report(issues, path, `expected integer ${min}-${max}`);
+  }
+  return false;
+}
+
+export function checkOneOf<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: readonly T[],
+  issues: ParseIssue[]
+): value is T {
+  if (typeof value === "string" && (allowed as readonly string[]).includes(value)) {
+    return true;
+  }
+  report(issues, path, `expected one of ${allowed.map((a) => JSON.stringify(a)).join(", ")}`);
+  return false;
+}
+
+export function checkId(value: unknown, path: string, issues: ParseIssue[]): value is string {
+  if (isValidQuantarId(value)) {
+    return true;
+  }
+  report(issues, path, "expected non-empty string of letters, digits and underscores");
+  return false;
+}
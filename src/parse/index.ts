@@ -0,0 +1,15 @@
+/**
+ * Parse module exports
+ */
+export {
+  type ParseErrorCode,
+  type ParseIssue,
+  type ParseSuccess,
+  type ParseFailure,
+  type ParseResult,
+  formatParseIssue,
+} from "./guards.js";
+export * from "./state.js";
+export * from "./actions.js";
+export * from "./canonical.js";
+export * from "./replay.js";
@@ -0,0 +1,156 @@
+/**
+ * @quantaris/engine - Replay Parsing
+ *
+ * Structural parsing of replay files. Whether the turns actually follow
+ * from each other is left to verifyReplay.
+ */
+
+import type { PlayerId } from "../core/types.js";
+import { Player } from "../core/types.js";
+import type { Replay, ReplayTurn } from "../hash/replay.js";
+import type { ParseIssue, ParseResult } from "./guards.js";
+import { checkInteger, checkObject, checkOneOf, isRecord, joinPath, report } from "./guards.js";
+import { parseGameState } from "./state.js";
+import { parseActions } from "./actions.js";
+
+const PLAYERS: readonly PlayerId[] = [Player.A, Player.B];
+const TURN_FIELDS = ["turn", "stateHash", "actionsA", "actionsB", "log", "turnHash", "chainHash"];
+
+// ============================================================================
+// Parsed Replay Types
+// ============================================================================
+
+/**
+ * A turn log checked only for its outline. Its events are plain objects
+ * until verifyReplay has matched them against the re-simulated TurnLog.
+ */
+export interface UnverifiedTurnLog {
+  readonly turn: number;
+  readonly events: readonly Readonly<Record<string, unknown>>[];
+}
+
+export type ParsedReplayTurn = Omit<ReplayTurn, "log"> & { readonly log: UnverifiedTurnLog };
+
+/** A Replay that is well-formed, but whose turn logs are unverified */
+export type ParsedReplay = Omit<Replay, "turns"> & { readonly turns: readonly ParsedReplayTurn[] };
+
+// ============================================================================
+// Field Parsers
+// ============================================================================
+
+function checkString(value: unknown, path: string, issues: ParseIssue[]): value is string {
+  if (typeof value === "string") {
+    return true;
+  }
+  report(issues, path, "expected string");
+  return false;
+}
+
+/**
+ * Run a nested parser and re-root its issues under `path`
+ */
+function parseNested<T>(result: ParseResult<T>, path: string, issues: ParseIssue[]): T | null {
+  if (result.valid) {
+    return result.value;
+  }
+  for (const issue of result.errors) {
+    const rooted = issue.path === "" || issue.path.startsWith("[");
+    issues.push({ ...issue, path: rooted ? `${path}${issue.path}` : joinPath(path, issue.path) });
+  }
+  return null;
+}
+
+/**
+ * Only the log's outline is checked: verifyReplay compares its contents
+ * against the re-simulated log
+ */
+function parseLog(value: unknown, path: string, issues: ParseIssue[]): UnverifiedTurnLog | null {
+  if (!checkObject(value, path, ["turn", "events"], [], issues)) {
+    return null;
+  }
+  const turnOk = checkInteger(value.turn, joinPath(path, "turn"), 1, Infinity, issues);
+  const events: unknown = value.events;
+  if (!Array.isArray(events) || !events.every(isRecord)) {
+    report(issues, joinPath(path, "events"), "expected array of objects");
+    return null;
+  }
+  return turnOk ? { turn: value.turn as number, events } : null;
+}
+
+function parseTurn(value: unknown, path: string, issues: ParseIssue[]): ParsedReplayTurn | null {
+  if (!checkObject(value, path, TURN_FIELDS, [], issues)) {
+    return null;
+  }
+  const turnOk = checkInteger(value.turn, joinPath(path, "turn"), 1, Infinity, issues);
+  const hashesOk = [
+    checkString(value.stateHash, joinPath(path, "stateHash"), issues),
+    checkString(value.turnHash, joinPath(path, "turnHash"), issues),
+    checkString(value.chainHash, joinPath(path, "chainHash"), issues),
+  ].every(Boolean);
+  const actionsA = parseNested(parseActions(value.actionsA), joinPath(path, "actionsA"), issues);
+  const actionsB = parseNested(parseActions(value.actionsB), joinPath(path, "actionsB"), issues);
+  const log = parseLog(value.log, joinPath(path, "log"), issues);
+
+  if (!turnOk || !hashesOk || !actionsA || !actionsB || !log) {
+    return null;
+  }
+  return {
+    turn: value.turn as number,
+    stateHash: value.stateHash as string,
+    actionsA,
+    actionsB,
+    log,
+    turnHash: value.turnHash as string,
+    chainHash: value.chainHash as string,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse an untrusted Replay, e.g. a replay file.
+ *
+ * Both states go through parseGameState and every action list through
+ * parseActions; issues are reported with their full path, e.g.
+ * `turns[3].actionsA[0].direction: expected one of ...`. Turn logs are
+ * only checked for their outline, so their events are left untyped: only
+ * verifyReplay can tell whether they are the TurnEvents they claim to be.
+ */
+export function parseReplay(input: unknown): ParseResult<ParsedReplay> {
+  const issues: ParseIssue[] = [];
+  const required = ["initialState", "turns", "finalState", "winner", "rootHash"];
+  if (!checkObject(input, "", required, [], issues)) {
+    return { valid: false, errors: issues };
+  }
+
+  const initialState = parseNested(parseGameState(input.initialState), "initialState", issues);
+  const finalState = parseNested(parseGameState(input.finalState), "finalState", issues);
+  const winnerOk = input.winner === null || checkOneOf(input.winner, "winner", PLAYERS, issues);
+  const rootOk = checkString(input.rootHash, "rootHash", issues);
+
+  const turns: ParsedReplayTurn[] = [];
+  if (Array.isArray(input.turns)) {
+    for (const [i, value] of input.turns.entries()) {
+      const turn = parseTurn(value, joinPath("turns", i), issues);
+      if (turn) turns.push(turn);
+    }
+  } else {
+    report(issues, "turns", "expected array");
+  }
+
+  if (!initialState || !finalState || !winnerOk || !rootOk || issues.length > 0) {
+    return { valid: false, errors: issues };
+  }
+  return {
+    valid: true,
+    value: {
+      initialState,
+      turns,
+      finalState,
+      winner: input.winner as PlayerId | null,
+      rootHash: input.rootHash as string,
+    },
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * @quantaris/engine - GameState Parsing
+ *
+ * Strict parsing of GameState JSON received off the wire. Checks both the
+ * shape of every field and the invariants the engine relies on.
+ */
+
+import type {
+  Core,
+  GameRules,
+  GameState,
+  PlayerId,
+  Position,
+  Quantar,
+  TerrainCell,
+} from "../core/types.js";
+import {
+  Player,
+  GamePhase,
+  TERRAIN_PROPERTIES,
+  TerrainType,
+  TiebreakPolicy,
+  VisibilityMode,
+} from "../core/types.js";
+import { DEFAULT_RULES, NUMERIC_RULE_KEYS, createRules, getRules } from "../core/rules.js";
+import { positionsEqual } from "../core/state.js";
+import type { ParseIssue, ParseResult } from "./guards.js";
+import {
+  checkId,
+  checkInteger,
+  checkObject,
+  checkOneOf,
+  joinPath,
+  report,
+} from "./guards.js";
+
+const PLAYERS: readonly PlayerId[] = [Player.A, Player.B];
+const PHASES = Object.values(GamePhase);
+const TERRAIN_TYPES = Object.values(TerrainType);
+const TIEBREAK_POLICIES = Object.values(TiebreakPolicy);
+const VISIBILITY_MODES = Object.values(VisibilityMode);
+const OPTIONAL_RULE_KEYS: readonly string[] = ["repetitionLimit", "tiebreak", "visibility", "visionRadius"];
+
+// ============================================================================
+// Field Parsers
+// ============================================================================
+
+function parseRules(value: unknown, issues: ParseIssue[]): GameRules | null {
+  if (value === undefined) {
+    return DEFAULT_RULES;
+  }
+  // Rules added after the original set may be absent (older states)
+  const required = NUMERIC_RULE_KEYS.filter((key) => !OPTIONAL_RULE_KEYS.includes(key));
+  if (!checkObject(value, "rules", required, OPTIONAL_RULE_KEYS, issues)) {
+    return null;
+  }
+
+  let ok = true;
+  for (const key of NUMERIC_RULE_KEYS) {
+    if (value[key] !== undefined || required.includes(key)) {
+      ok = checkInteger(value[key], joinPath("rules", key), 0, Infinity, issues) && ok;
+    }
+  }
+  if (value.tiebreak !== undefined) {
+    ok = checkOneOf(value.tiebreak, joinPath("rules", "tiebreak"), TIEBREAK_POLICIES, issues) && ok;
+  }
+  if (value.visibility !== undefined) {
+    ok = checkOneOf(value.visibility, joinPath("rules", "visibility"), VISIBILITY_MODES, issues) && ok;
+  }
+  if (!ok) {
+    return null;
+  }
+
+  try {
+    return createRules(value as Partial<GameRules>);
+  } catch (e) {
+    report(issues, "rules", (e as Error).message);
+    return null;
+  }
+}
+
+function parsePosition(
+  value: unknown,
+  path: string,
+  rules: GameRules,
+  issues: ParseIssue[]
+): Position | null {
+  if (!checkObject(value, path, ["x", "y"], [], issues)) {
+    return null;
+  }
+  const xOk = checkInteger(value.x, joinPath(path, "x"), 0, rules.boardWidth - 1, issues);
+  const yOk = checkInteger(value.y, joinPath(path, "y"), 0, rules.boardHeight - 1, issues);
+  return xOk && yOk ? { x: value.x as number, y: value.y as number } : null;
+}
+
+function parseCore(
+  value: unknown,
+  owner: PlayerId,
+  ended: boolean,
+  rules: GameRules,
+  issues: ParseIssue[]
+): Core | null {
+  const path = joinPath("cores", owner);
+  if (!checkObject(value, path, ["owner", "position", "hp"], [], issues)) {
+    return null;
+  }
+  const ownerOk = value.owner === owner;
+  if (!ownerOk) {
+    report(issues, joinPath(path, "owner"), `expected "${owner}"`);
+  }
+  const position = parsePosition(value.position, joinPath(path, "position"), rules, issues);
+  // A destroyed Core stays on the board once the game has ended
+  const hpOk = checkInteger(value.hp, joinPath(path, "hp"), ended ? -Infinity : 1, Infinity, issues);
+  return ownerOk && position && hpOk ? { owner, position, hp: value.hp as number } : null;
+}
+
+function parseQuantar(
+  value: unknown,
+  path: string,
+  rules: GameRules,
+  issues: ParseIssue[]
+): Quantar | null {
+  if (!checkObject(value, path, ["id", "owner", "position", "hp"], [], issues)) {
+    return null;
+  }
+  const idOk = checkId(value.id, joinPath(path, "id"), issues);
+  const ownerOk = checkOneOf(value.owner, joinPath(path, "owner"), PLAYERS, issues);
+  const position = parsePosition(value.position, joinPath(path, "position"), rules, issues);
+  // Dead quantars are removed during resolution, so every listed one is alive
+  const hpOk = checkInteger(value.hp, joinPath(path, "hp"), 1, Infinity, issues);
+  return idOk && ownerOk && position && hpOk
+    ? { id: value.id as string, owner: value.owner as PlayerId, position, hp: value.hp as number }
+    : null;
+}
+
+function parseTerrainCell(
+  value: unknown,
+  path: string,
+  rules: GameRules,
+  issues: ParseIssue[]
+): TerrainCell | null {
+  if (!checkObject(value, path, ["position", "type"], [], issues)) {
+    return null;
+  }
+  const position = parsePosition(value.position, joinPath(path, "position"), rules, issues);
+  const typeOk = checkOneOf(value.type, joinPath(path, "type"), TERRAIN_TYPES, issues);
+  return position && typeOk ? { position, type: value.type as TerrainType } : null;
+}
+
+function parseList<T>(
+  value: unknown,
+  path: string,
+  parseItem: (item: unknown, itemPath: string) => T | null,
+  issues: ParseIssue[]
+): T[] | null {
+  if (!Array.isArray(value)) {
+    report(issues, path, "expected array");
+    return null;
+  }
+  const items: T[] = [];
+  let ok = true;
+  for (const [i, item] of value.entries()) {
+    const parsed = parseItem(item, joinPath(path, i));
+    if (parsed) {
+      items.push(parsed);
+    } else {
+      ok = false;
+    }
+  }
+  return ok ? items : null;
+}
+
+// ============================================================================
+// Invariants
+// ============================================================================
+
+/**
+ * Whether an ended game may have been drawn. Repetition draws leave no
+ * trace on the board, so any ended state under the repetition rule passes.
+ */
+function canEndInDraw(state: GameState): boolean {
+  const rules = getRules(state);
+  const mutualDestruction =
+    (state.cores.A.hp <= 0 && state.cores.B.hp <= 0) || state.quantars.length === 0;
+  const turnLimit = state.turn >= rules.maxTurns && rules.tiebreak !== TiebreakPolicy.SuddenDeath;
+  return mutualDestruction || turnLimit || rules.repetitionLimit > 0;
+}
+
+function checkInvariants(state: GameState, issues: ParseIssue[]): void {
+  // Winner must match phase
+  if (state.winner !== null && state.phase !== GamePhase.Ended) {
+    report(issues, "winner", `must be null while phase is "${state.phase}"`, "INCONSISTENT_STATE");
+  }
+  if (state.winner === null && state.phase === GamePhase.Ended && !canEndInDraw(state)) {
+    report(issues, "winner", "must be set: nothing on the board explains a draw", "INCONSISTENT_STATE");
+  }
+
+  // Unique quantar ids
+  const seen = new Map<string, number>();
+  for (const [i, q] of state.quantars.entries()) {
+    const first = seen.get(q.id);
+    if (first !== undefined) {
+      report(issues, `quantars[${i}].id`, `duplicate of quantars[${first}].id`, "DUPLICATE_ID");
+    } else {
+      seen.set(q.id, i);
+    }
+  }
+
+  // No two entities on one cell (quantars may share a cell with pillars)
+  const occupied: Array<{ position: Position; path: string; blocksMovement: boolean }> = [];
+  const place = (position: Position, path: string, blocksMovement: boolean, isUnit: boolean) => {
+    const clash = occupied.find(
+      (o) => positionsEqual(o.position, position) && (o.blocksMovement || !isUnit)
+    );
+    if (clash) {
+      report(issues, path, `same cell as ${clash.path}`, "OVERLAPPING_ENTITIES");
+    }
+    occupied.push({ position, path, blocksMovement });
+  };
+
+  for (const owner of PLAYERS) {
+    place(state.cores[owner].position, `cores.${owner}.position`, true, false);
+  }
+  for (const [i, t] of (state.terrain ?? []).entries()) {
+    place(t.position, `terrain[${i}].position`, TERRAIN_PROPERTIES[t.type].blocksMovement, false);
+  }
+  for (const [i, q] of state.quantars.entries()) {
+    place(q.position, `quantars[${i}].position`, true, true);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse an untrusted GameState.
+ *
+ * Reports every malformed field with its path, e.g.
+ * `quantars[2].position.x: expected integer 0-8`, then checks invariants:
+ * unique quantar ids, living quantars only, no shared cells, and a winner
+ * consistent with the phase. The returned state is a fresh object
+ * containing only known fields.
+ */
+export function parseGameState(input: unknown): ParseResult<GameState> {
+  const issues: ParseIssue[] = [];
+  const fail = (): ParseResult<GameState> => ({ valid: false, errors: issues });
+
+  const required = ["turn", "phase", "quantars", "cores", "winner"];
+  if (!checkObject(input, "", required, ["terrain", "rules"], issues)) {
+    return fail();
+  }
+
+  const rules = parseRules(input.rules, issues);
+  if (!rules) {
+    return fail(); // Bounds depend on the rules
+  }
+
+  const turnOk = checkInteger(input.turn, "turn", 1, Infinity, issues);
+  const phaseOk = checkOneOf(input.phase, "phase", PHASES, issues);
+  const winnerOk =
+    input.winner === null || checkOneOf(input.winner, "winner", PLAYERS, issues);
+  const ended = input.phase === GamePhase.Ended;
+
+  let cores: { A: Core; B: Core } | null = null;
+  if (checkObject(input.cores, "cores", PLAYERS, [], issues)) {
+    const coreA = parseCore(input.cores.A, Player.A, ended, rules, issues);
+    const coreB = parseCore(input.cores.B, Player.B, ended, rules, issues);
+    cores = coreA && coreB ? { A: coreA, B: coreB } : null;
+  }
+
+  const quantars = parseList(
+    input.quantars,
+    "quantars",
+    (item, path) => parseQuantar(item, path, rules, issues),
+    issues
+  );
+  const terrain =
+    input.terrain === undefined
+      ? undefined
+      : parseList(input.terrain, "terrain", (item, path) => parseTerrainCell(item, path, rules, issues), issues);
+
+  if (!turnOk || !phaseOk || !winnerOk || !cores || !quantars || terrain === null) {
+    return fail();
+  }
+
+  const state: GameState = {
+    turn: input.turn as number,
+    phase: input.phase as GamePhase,
+    quantars,
+    cores,
+    winner: input.winner as PlayerId | null,
+    ...(terrain ? { terrain } : {}),
+    ...(input.rules !== undefined ? { rules } : {}),
+  };
+
+  checkInvariants(state, issues);
+  return issues.length > 0 ? fail() : { valid: true, value: state };
+}
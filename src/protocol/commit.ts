@@ -0,0 +1,59 @@
+/**
+ * @quantaris/engine - Action Commitments
+ *
+ * Commit-reveal for simultaneous turns: each player first publishes a
+ * hash of their actions and a secret nonce, and reveals both only once
+ * the opponent has committed. Neither side can then pick actions after
+ * seeing the other's.
+ */
+
+import type { Action } from "../core/types.js";
+import { canonicalizeActions, getHashAlgorithm, hashString, HashAlgorithm } from "../hash/canonical.js";
+
+/**
+ * Shortest nonce accepted. Nonces should be random and never reused;
+ * 32 hex digits (128 bits) from a CSPRNG is the intended form.
+ */
+export const MIN_NONCE_LENGTH = 16;
+
+export type RevealResult = { readonly valid: true } | { readonly valid: false; readonly error: string };
+
+/**
+ * The string that gets hashed. The actions are length-prefixed so that no
+ * other split of the same bytes into actions and nonce hashes the same.
+ */
+function commitmentPayload(actions: readonly Action[], nonce: string): string {
+  const canonical = canonicalizeActions(actions);
+  return `${canonical.length}:${canonical}${nonce}`;
+}
+
+/**
+ * Commitment to a player's actions for one turn: SHA-256 over the
+ * canonical actions and `nonce`, as `sha256:<64 hex digits>`.
+ *
+ * Throws RangeError if the nonce is shorter than MIN_NONCE_LENGTH; a
+ * short nonce lets the opponent brute-force the committed actions.
+ */
+export function createCommitment(actions: readonly Action[], nonce: string): string {
+  if (nonce.length < MIN_NONCE_LENGTH) {
+    throw new RangeError(`Nonce must be at least ${MIN_NONCE_LENGTH} characters, got ${nonce.length}`);
+  }
+  return hashString(commitmentPayload(actions, nonce), HashAlgorithm.Sha256);
+}
+
+/**
+ * Check that `actions` and `nonce` are what `commitment` was made from.
+ * Action order does not matter, as for canonicalizeActions.
+ */
+export function verifyReveal(commitment: string, actions: readonly Action[], nonce: string): RevealResult {
+  if (getHashAlgorithm(commitment) !== HashAlgorithm.Sha256) {
+    return { valid: false, error: "Commitment is not a SHA-256 hash" };
+  }
+  if (nonce.length < MIN_NONCE_LENGTH) {
+    return { valid: false, error: `Nonce must be at least ${MIN_NONCE_LENGTH} characters` };
+  }
+  if (hashString(commitmentPayload(actions, nonce), HashAlgorithm.Sha256) !== commitment) {
+    return { valid: false, error: "Actions and nonce do not match the commitment" };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,5 @@
+/**
+ * Protocol module exports
+ */
+export * from "./commit.js";
+export * from "./round.js";
@@ -0,0 +1,156 @@
+/**
+ * @quantaris/engine - Commit-Reveal Rounds
+ *
+ * Tracks one turn of the commit-reveal protocol: both players commit,
+ * then both reveal, and the revealed actions are checked against the
+ * commitments and the state. Each peer can run its own round on the
+ * messages it receives, so a match needs no trusted server.
+ */
+
+import type { Action, GameState, PlayerId, TurnInput } from "../core/types.js";
+import { Player } from "../core/types.js";
+import { getOpponent } from "../core/state.js";
+import { validatePlayerActions } from "../actions/validate.js";
+import { verifyReveal } from "./commit.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const RoundPhase = {
+  /** Waiting for one or both commitments */
+  Committing: "committing",
+  /** Both committed; waiting for one or both reveals */
+  Revealing: "revealing",
+  /** Both revealed; the turn can be resolved */
+  Complete: "complete",
+} as const;
+
+export type RoundPhase = (typeof RoundPhase)[keyof typeof RoundPhase];
+
+export type RoundErrorCode =
+  | "WRONG_PHASE"
+  | "ALREADY_COMMITTED"
+  | "ALREADY_REVEALED"
+  | "INVALID_COMMITMENT"
+  | "REVEAL_MISMATCH"
+  | "INVALID_ACTIONS";
+
+export type RoundStepResult =
+  | { readonly valid: true; readonly phase: RoundPhase }
+  | { readonly valid: false; readonly code: RoundErrorCode; readonly error: string };
+
+const COMMITMENT_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+// ============================================================================
+// Round
+// ============================================================================
+
+/**
+ * One turn of commit-reveal.
+ *
+ * Refused steps (a reveal before both have committed, a reveal that does
+ * not match its commitment, illegal actions) leave the round unchanged.
+ * A player whose reveal keeps failing has broken the protocol; what that
+ * costs them is up to the caller.
+ *
+ * ```typescript
+ * const round = new CommitRevealRound(state);
+ * round.commit(Player.A, commitmentA);
+ * round.commit(Player.B, commitmentB);
+ * round.reveal(Player.A, actionsA, nonceA);
+ * round.reveal(Player.B, actionsB, nonceB);
+ * const { state: next } = resolveTurn(round.turnInput!);
+ * ```
+ */
+export class CommitRevealRound {
+  /** State the turn is played from */
+  readonly state: GameState;
+  private readonly commitments: Partial<Record<PlayerId, string>> = {};
+  private readonly revealed: Partial<Record<PlayerId, readonly Action[]>> = {};
+
+  constructor(state: GameState) {
+    this.state = state;
+  }
+
+  get phase(): RoundPhase {
+    if (this.revealed.A && this.revealed.B) {
+      return RoundPhase.Complete;
+    }
+    return this.commitments.A && this.commitments.B ? RoundPhase.Revealing : RoundPhase.Committing;
+  }
+
+  hasCommitted(player: PlayerId): boolean {
+    return this.commitments[player] !== undefined;
+  }
+
+  hasRevealed(player: PlayerId): boolean {
+    return this.revealed[player] !== undefined;
+  }
+
+  /** The player's commitment, to pass on to the opponent (null if not yet committed) */
+  getCommitment(player: PlayerId): string | null {
+    return this.commitments[player] ?? null;
+  }
+
+  /** Players who still owe a commitment or reveal in the current phase */
+  get pendingPlayers(): PlayerId[] {
+    const players = [Player.A, Player.B];
+    switch (this.phase) {
+      case RoundPhase.Committing:
+        return players.filter((p) => !this.hasCommitted(p));
+      case RoundPhase.Revealing:
+        return players.filter((p) => !this.hasRevealed(p));
+      case RoundPhase.Complete:
+        return [];
+    }
+  }
+
+  /** Both players' actions once revealed, ready for resolveTurn */
+  get turnInput(): TurnInput | null {
+    const { A, B } = this.revealed;
+    return A && B ? { state: this.state, actionsA: A, actionsB: B } : null;
+  }
+
+  /** Record a player's commitment (as made by createCommitment) */
+  commit(player: PlayerId, commitment: string): RoundStepResult {
+    if (this.phase !== RoundPhase.Committing) {
+      return { valid: false, code: "WRONG_PHASE", error: "Both players have already committed" };
+    }
+    if (this.hasCommitted(player)) {
+      return { valid: false, code: "ALREADY_COMMITTED", error: `Player ${player} has already committed` };
+    }
+    if (!COMMITMENT_PATTERN.test(commitment)) {
+      return { valid: false, code: "INVALID_COMMITMENT", error: "Commitment is not a SHA-256 hash" };
+    }
+    this.commitments[player] = commitment;
+    return { valid: true, phase: this.phase };
+  }
+
+  /**
+   * Record a player's revealed actions. Accepted only once both players
+   * have committed, if they match the player's commitment and pass
+   * validatePlayerActions against the round's state.
+   */
+  reveal(player: PlayerId, actions: readonly Action[], nonce: string): RoundStepResult {
+    if (this.phase === RoundPhase.Committing) {
+      const waitingFor = this.hasCommitted(player) ? getOpponent(player) : player;
+      return { valid: false, code: "WRONG_PHASE", error: `Player ${waitingFor} has not committed yet` };
+    }
+    if (this.hasRevealed(player)) {
+      return { valid: false, code: "ALREADY_REVEALED", error: `Player ${player} has already revealed` };
+    }
+
+    const match = verifyReveal(this.commitments[player]!, actions, nonce);
+    if (!match.valid) {
+      return { valid: false, code: "REVEAL_MISMATCH", error: match.error };
+    }
+    const validation = validatePlayerActions(this.state, actions, player);
+    if (!validation.valid) {
+      return { valid: false, code: "INVALID_ACTIONS", error: validation.error };
+    }
+
+    this.revealed[player] = actions;
+    return { valid: true, phase: this.phase };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @quantaris/engine - Event Sourcing
+ *
+ * Rebuilds states from turn logs alone. Every state change resolveTurn
+ * makes is recorded as an event, so a log applied to the state it was
+ * produced from yields the next state without re-running the rules.
+ */
+
+import type { GameState, PlayerId, Position, Quantar, TurnEvent, TurnInput, TurnLog } from "../core/types.js";
+import { EventType, GamePhase, Player } from "../core/types.js";
+import { positionsEqual } from "../core/state.js";
+import type { ResolutionOptions } from "../resolution/pipeline.js";
+import { resolveTurn } from "../resolution/pipeline.js";
+import { canonicalizeState } from "../hash/canonical.js";
+
+// ============================================================================
+// Result Types
+// ============================================================================
+
+export type ApplyLogResult =
+  | { readonly valid: true; readonly state: GameState }
+  | {
+      readonly valid: false;
+      readonly error: string;
+      /** Index into log.events of the offending event (null for the log itself) */
+      readonly eventIndex: number | null;
+    };
+
+export type LogConsistencyResult =
+  | { readonly valid: true; readonly state: GameState }
+  | {
+      readonly valid: false;
+      readonly error: string;
+      /** Canonical form of resolveTurn's state */
+      readonly expected: string;
+      /** Canonical form of the state rebuilt from the log (empty if it could not be applied) */
+      readonly actual: string;
+    };
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+/** Mutable copy of the parts of a state that events change */
+interface Board {
+  quantars: Map<string, Quantar>;
+  coreHp: Record<PlayerId, number>;
+  winner: PlayerId | null;
+  ended: boolean;
+}
+
+/** Cores appear in events as "core_A" / "core_B" */
+function coreOwner(id: string): PlayerId | null {
+  for (const owner of [Player.A, Player.B]) {
+    if (id === `core_${owner}`) return owner;
+  }
+  return null;
+}
+
+function describePosition(p: Position): string {
+  return `(${p.x},${p.y})`;
+}
+
+/**
+ * Apply one event to the board. Returns an error message if the event
+ * does not fit the board, otherwise null.
+ */
+function applyEvent(board: Board, event: TurnEvent): string | null {
+  switch (event.type) {
+    case EventType.Move: {
+      const quantar = board.quantars.get(event.quantarId);
+      if (!quantar) {
+        return `Move of unknown quantar ${event.quantarId}`;
+      }
+      if (!positionsEqual(quantar.position, event.from)) {
+        return (
+          `Quantar ${event.quantarId} moves from ${describePosition(event.from)} ` +
+          `but is at ${describePosition(quantar.position)}`
+        );
+      }
+      board.quantars.set(quantar.id, { ...quantar, position: event.to });
+      return null;
+    }
+
+    case EventType.DamageApplied: {
+      const quantar = board.quantars.get(event.targetId);
+      const owner = coreOwner(event.targetId);
+      const hp = quantar ? quantar.hp : owner ? board.coreHp[owner] : null;
+      if (hp === null) {
+        return `Damage to unknown entity ${event.targetId}`;
+      }
+      if (hp - event.damage !== event.remainingHp) {
+        return `${event.targetId} has ${hp} HP; ${event.damage} damage cannot leave ${event.remainingHp}`;
+      }
+      if (quantar) {
+        board.quantars.set(quantar.id, { ...quantar, hp: event.remainingHp });
+      } else {
+        board.coreHp[owner!] = event.remainingHp;
+      }
+      return null;
+    }
+
+    case EventType.EntityDestroyed: {
+      const quantar = board.quantars.get(event.entityId);
+      const owner = coreOwner(event.entityId);
+      const hp = quantar ? quantar.hp : owner ? board.coreHp[owner] : null;
+      if (hp === null) {
+        return `Destruction of unknown entity ${event.entityId}`;
+      }
+      if (hp > 0) {
+        return `${event.entityId} destroyed with ${hp} HP left`;
+      }
+      // Destroyed Cores stay on the board at their final HP
+      board.quantars.delete(event.entityId);
+      return null;
+    }
+
+    case EventType.GameOver:
+      board.winner = event.winner;
+      board.ended = true;
+      return null;
+
+    case EventType.Draw:
+      board.ended = true;
+      return null;
+
+    // Informational: the state changes they explain are separate events
+    case EventType.MoveBlocked:
+    case EventType.PulseFired:
+    case EventType.PulseHit:
+    case EventType.PulseMiss:
+    case EventType.TerrainHit:
+    case EventType.ShieldActivated:
+    case EventType.TerminalLoss:
+    case EventType.Tiebreak:
+    case EventType.SuddenDeath:
+      return null;
+  }
+}
+
+/**
+ * Derive the state after a turn from `state` and the turn's log alone.
+ *
+ * Moves set positions, DAMAGE_APPLIED sets HP, ENTITY_DESTROYED removes
+ * quantars, GAME_OVER / DRAW end the game, and the turn counter advances.
+ * Each event is checked against the board as it stands (a move must start
+ * where the quantar is, damage must leave the recorded HP, and so on), so
+ * a log that is incomplete or belongs to another state is reported at the
+ * first event that does not fit.
+ */
+export function applyTurnLog(state: GameState, log: TurnLog): ApplyLogResult {
+  if (state.phase !== GamePhase.Playing) {
+    return { valid: false, error: "Game has already ended", eventIndex: null };
+  }
+  if (log.turn !== state.turn) {
+    return { valid: false, error: `Log is for turn ${log.turn}, state is at turn ${state.turn}`, eventIndex: null };
+  }
+
+  const board: Board = {
+    quantars: new Map(state.quantars.map((q) => [q.id, q])),
+    coreHp: { A: state.cores.A.hp, B: state.cores.B.hp },
+    winner: null,
+    ended: false,
+  };
+
+  for (const [eventIndex, event] of log.events.entries()) {
+    const error = applyEvent(board, event);
+    if (error) {
+      return { valid: false, error, eventIndex };
+    }
+  }
+
+  return {
+    valid: true,
+    state: {
+      ...state,
+      turn: state.turn + 1,
+      phase: board.ended ? GamePhase.Ended : GamePhase.Playing,
+      quantars: [...board.quantars.values()],
+      cores: {
+        A: { ...state.cores.A, hp: board.coreHp.A },
+        B: { ...state.cores.B, hp: board.coreHp.B },
+      },
+      winner: board.winner,
+    },
+  };
+}
+
+/**
+ * Resolve a turn and check that its log alone rebuilds the same state.
+ *
+ * Meant for tests and for validating custom pipeline phases: a phase that
+ * changes the board without logging it makes the log incomplete for
+ * event-sourced consumers, and this reports it.
+ */
+export function checkTurnLogConsistency(input: TurnInput, options: ResolutionOptions = {}): LogConsistencyResult {
+  const { state, log } = resolveTurn(input, options);
+  const expected = canonicalizeState(state);
+
+  // A rules override applies to the resulting state; the log cannot know it
+  const base = input.rules ? { ...input.state, rules: input.rules } : input.state;
+  const rebuilt = applyTurnLog(base, log);
+  if (!rebuilt.valid) {
+    return { valid: false, error: rebuilt.error, expected, actual: "" };
+  }
+
+  const actual = canonicalizeState(rebuilt.state);
+  if (actual !== expected) {
+    return { valid: false, error: "State rebuilt from the log differs from resolveTurn's", expected, actual };
+  }
+  return { valid: true, state };
+}
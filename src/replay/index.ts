@@ -0,0 +1,6 @@
+/**
+ * Replay module exports
+ */
+export * from "./verify.js";
+export * from "./recorder.js";
+export * from "./events.js";
@@ -0,0 +1,166 @@
+/**
+ * @quantaris/engine - Game Recorder
+ *
+ * Plays a game turn by turn and records it as a Replay.
+ */
+
+import type { Action, GameState, PlayerId, Sha256PositionHash, TurnResult } from "../core/types.js";
+import { GamePhase, Player } from "../core/types.js";
+import { createInitialState } from "../core/state.js";
+import type { ValidationError } from "../actions/validate.js";
+import { validatePlayerActions } from "../actions/validate.js";
+import type { ResolutionOptions } from "../resolution/pipeline.js";
+import { DEFAULT_PIPELINE, resolveTurn } from "../resolution/pipeline.js";
+import type { HashAlgorithm } from "../hash/canonical.js";
+import { hashPositionSha256 } from "../hash/canonical.js";
+import type { Replay, ReplayTurn } from "../hash/replay.js";
+import { createReplay, createReplayTurn, getReplayGenesisHash } from "../hash/replay.js";
+
+export interface GameRecorderOptions {
+  /** Algorithm for each turn's stateHash (defaults to djb2) */
+  readonly algorithm?: HashAlgorithm;
+  /**
+   * Passed to resolveTurn for every turn. A custom pipeline or hooks can
+   * be played but not exported: verifyReplay only knows DEFAULT_PIPELINE.
+   */
+  readonly resolution?: ResolutionOptions;
+}
+
+export type RecordTurnResult =
+  | { readonly valid: true; readonly result: TurnResult; readonly turn: ReplayTurn }
+  | { readonly valid: false; readonly player: PlayerId; readonly error: ValidationError };
+
+/**
+ * Wraps resolveTurn and records every turn played.
+ *
+ * Actions that fail validation are refused and leave the recorder
+ * unchanged. Once the game ends, `replay` holds the finished Replay.
+ *
+ * ```typescript
+ * const recorder = new GameRecorder();
+ * const outcome = recorder.playTurn(actionsA, actionsB);
+ * if (!outcome.valid) console.log(outcome.player, outcome.error.code);
+ * ```
+ */
+export class GameRecorder {
+  readonly initialState: GameState;
+  private readonly options: GameRecorderOptions;
+  /** states[i] is the state before turns[i]; the last entry is the current state */
+  private readonly states: GameState[];
+  private readonly recordedTurns: ReplayTurn[] = [];
+  /** SHA-256 hashPosition of every entry in `states`, for the repetition rule */
+  private readonly positionHistory: Sha256PositionHash[];
+
+  constructor(initialState: GameState = createInitialState(), options: GameRecorderOptions = {}) {
+    this.initialState = initialState;
+    this.options = options;
+    this.states = [initialState];
+    this.positionHistory = [hashPositionSha256(initialState)];
+  }
+
+  /** Current state of the game */
+  get state(): GameState {
+    return this.states[this.states.length - 1]!;
+  }
+
+  get turns(): readonly ReplayTurn[] {
+    return [...this.recordedTurns];
+  }
+
+  get ended(): boolean {
+    return this.state.phase === GamePhase.Ended;
+  }
+
+  /**
+   * The finished Replay, or null while the game is still in progress or
+   * if it cannot be exported (see toReplay).
+   */
+  get replay(): Replay | null {
+    return this.ended && this.isExportable() ? this.toReplay() : null;
+  }
+
+  /**
+   * Validate both players' actions, resolve the turn and record it.
+   * Player A's actions are checked first.
+   */
+  playTurn(actionsA: readonly Action[], actionsB: readonly Action[]): RecordTurnResult {
+    const state = this.state;
+
+    for (const [player, actions] of [
+      [Player.A, actionsA],
+      [Player.B, actionsB],
+    ] as const) {
+      const validation = validatePlayerActions(state, actions, player);
+      if (!validation.valid) {
+        return { valid: false, player, error: validation };
+      }
+    }
+
+    const result = resolveTurn(
+      { state, actionsA, actionsB, positionHistory: [...this.positionHistory] },
+      this.options.resolution
+    );
+    const previousChainHash = this.recordedTurns.at(-1)?.chainHash ?? getReplayGenesisHash(this.initialState);
+    const turn = createReplayTurn(state, actionsA, actionsB, result.log, {
+      previousChainHash,
+      ...(this.options.algorithm ? { algorithm: this.options.algorithm } : {}),
+    });
+
+    this.recordedTurns.push(turn);
+    this.states.push(result.state);
+    this.positionHistory.push(hashPositionSha256(result.state));
+
+    return { valid: true, result, turn };
+  }
+
+  /**
+   * Take back the last turn, returning it (null if nothing has been played).
+   * Undoing the final turn of an ended game reopens it.
+   */
+  undo(): ReplayTurn | null {
+    const turn = this.recordedTurns.pop();
+    if (!turn) {
+      return null;
+    }
+    this.states.pop();
+    this.positionHistory.pop();
+    return turn;
+  }
+
+  /**
+   * A new recorder holding the first `turnCount` turns of this one (all of
+   * them by default), for exploring alternative lines without touching
+   * this game. Throws RangeError if `turnCount` is out of range.
+   */
+  fork(turnCount: number = this.recordedTurns.length): GameRecorder {
+    if (!Number.isInteger(turnCount) || turnCount < 0 || turnCount > this.recordedTurns.length) {
+      throw new RangeError(`Cannot fork at turn ${turnCount}: recorder has ${this.recordedTurns.length} turns`);
+    }
+
+    const fork = new GameRecorder(this.initialState, this.options);
+    fork.states.push(...this.states.slice(1, turnCount + 1));
+    fork.recordedTurns.push(...this.recordedTurns.slice(0, turnCount));
+    fork.positionHistory.push(...this.positionHistory.slice(1, turnCount + 1));
+    return fork;
+  }
+
+  /**
+   * Replay of the turns so far, whether or not the game has ended.
+   *
+   * Throws RangeError if the recorder resolves turns with a custom
+   * pipeline or hooks, since verifyReplay would reject the result.
+   */
+  toReplay(): Replay {
+    if (!this.isExportable()) {
+      throw new RangeError("Cannot export a replay resolved with a custom pipeline or hooks");
+    }
+    return createReplay(this.initialState, [...this.recordedTurns], this.state);
+  }
+
+  /** Whether turns are resolved the way verifyReplay re-simulates them */
+  private isExportable(): boolean {
+    const { pipeline, hooks = {} } = this.options.resolution ?? {};
+    const customHooks = Object.values(hooks).some((hook) => hook !== undefined);
+    return (!pipeline || pipeline === DEFAULT_PIPELINE) && !customHooks;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @quantaris/engine - Replay Verification
+ *
+ * Re-simulates a replay from its initial state and checks every recorded
+ * value against what the engine produces.
+ */
+
+import type { GameState, TurnLog } from "../core/types.js";
+import { Player } from "../core/types.js";
+import { validatePlayerActions } from "../actions/validate.js";
+import { resolveTurn } from "../resolution/pipeline.js";
+import {
+  canonicalizeState,
+  canonicalizeActions,
+  HashAlgorithm,
+  getHashAlgorithm,
+  hashPositionSha256,
+  hashState,
+  hashTurn,
+} from "../hash/canonical.js";
+import { verifyReplayChain } from "../hash/replay.js";
+import { formatParseIssue } from "../parse/guards.js";
+import type { UnverifiedTurnLog } from "../parse/replay.js";
+import { parseReplay } from "../parse/replay.js";
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+/** Which part of the replay disagrees with the re-simulation */
+export type ReplayField =
+  | "format"
+  | "turn"
+  | "stateHash"
+  | "turnHash"
+  | "actionsA"
+  | "actionsB"
+  | "log"
+  | "finalState"
+  | "winner"
+  | "chainHash";
+
+export interface ReplayDivergence {
+  readonly valid: false;
+  /** Index into replay.turns, or null for format / finalState / winner */
+  readonly turnIndex: number | null;
+  readonly field: ReplayField;
+  readonly error: string;
+  /** What re-simulation produced: a canonical string, or a hash for stateHash / turnHash / chainHash */
+  readonly expected: string;
+  /** What the replay records, in the same form as `expected` */
+  readonly actual: string;
+}
+
+export type ReplayVerification =
+  | { readonly valid: true; readonly turns: number; readonly finalState: GameState }
+  | ReplayDivergence;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * JSON with object keys sorted, so logs that went through a different
+ * serializer still compare equal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function canonicalizeLog(log: TurnLog | UnverifiedTurnLog): string {
+  return canonicalJson(log);
+}
+
+function diverge(
+  turnIndex: number | null,
+  field: ReplayField,
+  error: string,
+  expected: string,
+  actual: string
+): ReplayDivergence {
+  return { valid: false, turnIndex, field, error, expected, actual };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Verify a replay by playing it again.
+ *
+ * The input is untrusted: a replay that fails parseReplay is reported
+ * with field "format" and every parse issue in `error`. Starting from
+ * `initialState`, every turn's actions are validated and resolved; the
+ * turn number, `stateHash`, `turnHash` and log must match what was
+ * recorded, and the last state must match `finalState` and `winner`.
+ * Finally the hash chain is checked. Returns the first divergence found.
+ */
+export function verifyReplay(input: unknown): ReplayVerification {
+  const parsed = parseReplay(input);
+  if (!parsed.valid) {
+    const error = `Malformed replay: ${parsed.errors.map(formatParseIssue).join("; ")}`;
+    return diverge(null, "format", error, "", "");
+  }
+
+  const replay = parsed.value;
+  let state = replay.initialState;
+  const positionHistory = [hashPositionSha256(state)];
+
+  for (const [turnIndex, turn] of replay.turns.entries()) {
+    if (turn.turn !== state.turn) {
+      return diverge(turnIndex, "turn", `Expected turn ${state.turn}, replay has ${turn.turn}`, `${state.turn}`, `${turn.turn}`);
+    }
+
+    const stateHash = hashState(state, getHashAlgorithm(turn.stateHash));
+    if (stateHash !== turn.stateHash) {
+      return diverge(
+        turnIndex,
+        "stateHash",
+        `State hash mismatch at turn ${turn.turn}; re-simulated state is ${canonicalizeState(state)}`,
+        stateHash,
+        turn.stateHash
+      );
+    }
+
+    for (const [field, playerId, actions] of [
+      ["actionsA", Player.A, turn.actionsA],
+      ["actionsB", Player.B, turn.actionsB],
+    ] as const) {
+      const validation = validatePlayerActions(state, actions, playerId);
+      if (!validation.valid) {
+        return diverge(
+          turnIndex,
+          field,
+          `Invalid actions for player ${playerId} at turn ${turn.turn}: ${validation.error}`,
+          "",
+          canonicalizeActions(actions)
+        );
+      }
+    }
+
+    const turnHash = hashTurn(state, turn.actionsA, turn.actionsB, HashAlgorithm.Sha256);
+    if (turnHash !== turn.turnHash) {
+      return diverge(turnIndex, "turnHash", `Turn hash mismatch at turn ${turn.turn}`, turnHash, turn.turnHash);
+    }
+
+    const result = resolveTurn({ state, actionsA: turn.actionsA, actionsB: turn.actionsB, positionHistory });
+    const expectedLog = canonicalizeLog(result.log);
+    const actualLog = canonicalizeLog(turn.log);
+    if (expectedLog !== actualLog) {
+      return diverge(turnIndex, "log", `Turn log mismatch at turn ${turn.turn}`, expectedLog, actualLog);
+    }
+
+    state = result.state;
+    positionHistory.push(hashPositionSha256(state));
+  }
+
+  const expectedFinal = canonicalizeState(state);
+  const actualFinal = canonicalizeState(replay.finalState);
+  if (expectedFinal !== actualFinal) {
+    return diverge(null, "finalState", "Final state mismatch", expectedFinal, actualFinal);
+  }
+
+  if (state.winner !== replay.winner) {
+    return diverge(null, "winner", "Winner mismatch", `${state.winner}`, `${replay.winner}`);
+  }
+
+  const chain = verifyReplayChain(replay);
+  if (!chain.valid) {
+    return diverge(chain.turnIndex, "chainHash", chain.error, chain.expected, chain.actual);
+  }
+
+  return { valid: true, turns: replay.turns.length, finalState: state };
+}
@@ -0,0 +1,253 @@
+/**
+ * @quantaris/engine - Resolution Context
+ *
+ * Mutable working state shared by every phase of a turn's resolution.
+ * Phases read actions and rules from it and mutate entities and events in
+ * place; resolveTurn freezes the result into a new GameState at the end.
+ */
+
+import type {
+  Action,
+  Core,
+  GameRules,
+  GameState,
+  PlayerId,
+  Position,
+  Quantar,
+  TerrainCell,
+  TurnEvent,
+  DamageSource,
+  Sha256PositionHash,
+} from "../core/types.js";
+import { EntityType, EventType, GamePhase } from "../core/types.js";
+import { positionsEqual } from "../core/state.js";
+
+// ============================================================================
+// Mutable Entities
+// ============================================================================
+
+export interface ResolutionQuantar {
+  id: string;
+  owner: PlayerId;
+  position: Position;
+  hp: number;
+  shielded: boolean;
+  pendingDamage: number;
+  damageSources: DamageSource[];
+}
+
+export interface ResolutionCore {
+  owner: PlayerId;
+  position: Position;
+  hp: number;
+  pendingDamage: number;
+  damageSources: DamageSource[];
+}
+
+export type ResolutionEntity =
+  | { readonly type: typeof EntityType.Quantar; readonly entity: ResolutionQuantar }
+  | { readonly type: typeof EntityType.Core; readonly entity: ResolutionCore };
+
+export type DamageAppliedEvent = Extract<TurnEvent, { type: typeof EventType.DamageApplied }>;
+export type EntityDestroyedEvent = Extract<TurnEvent, { type: typeof EventType.EntityDestroyed }>;
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Callbacks the default phases invoke at fixed points. Hooks may mutate the
+ * context (e.g. heal a Quantar in onDamage) and push their own events.
+ */
+export interface ResolutionHooks {
+  /** Before any move is resolved */
+  readonly beforeMove?: (ctx: ResolutionContext) => void;
+  /** After every pulse has been traced, before damage is applied */
+  readonly afterPulse?: (ctx: ResolutionContext) => void;
+  /** After each DAMAGE_APPLIED event */
+  readonly onDamage?: (ctx: ResolutionContext, event: DamageAppliedEvent) => void;
+  /** After each ENTITY_DESTROYED event */
+  readonly onDestroy?: (ctx: ResolutionContext, event: EntityDestroyedEvent) => void;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+export interface ResolutionContext {
+  /** State the turn started from (never mutated) */
+  readonly state: GameState;
+  readonly rules: GameRules;
+  /** Position hashes of earlier states, if the caller tracks them */
+  readonly positionHistory?: readonly Sha256PositionHash[];
+  readonly terrain: readonly TerrainCell[];
+  /** Both players' actions, A's first */
+  readonly actions: readonly Action[];
+  readonly hooks: ResolutionHooks;
+  quantars: ResolutionQuantar[];
+  readonly cores: { A: ResolutionCore; B: ResolutionCore };
+  readonly events: TurnEvent[];
+  /** Set by the win condition phase */
+  winner: PlayerId | null;
+  /** Set by the win condition phase */
+  ended: boolean;
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+export interface SnapshotQuantar extends Quantar {
+  readonly shielded: boolean;
+  readonly pendingDamage: number;
+}
+
+export interface SnapshotCore extends Core {
+  readonly pendingDamage: number;
+}
+
+/** Frozen view of the context after one pipeline phase */
+export interface PhaseSnapshot {
+  /** Name of the phase that just ran */
+  readonly phase: string;
+  readonly quantars: readonly SnapshotQuantar[];
+  readonly cores: { readonly A: SnapshotCore; readonly B: SnapshotCore };
+  /** Events produced by this phase only */
+  readonly events: readonly TurnEvent[];
+}
+
+/**
+ * Capture the context after a phase. Events from index eventStart onwards
+ * are attributed to the phase.
+ */
+export function snapshotContext(ctx: ResolutionContext, phase: string, eventStart: number): PhaseSnapshot {
+  const snapshotCore = (c: ResolutionCore): SnapshotCore =>
+    Object.freeze({ ...toImmutableCore(c), pendingDamage: c.pendingDamage });
+
+  return Object.freeze({
+    phase,
+    quantars: Object.freeze(
+      ctx.quantars.map((q) =>
+        Object.freeze({ ...toImmutableQuantar(q), shielded: q.shielded, pendingDamage: q.pendingDamage })
+      )
+    ),
+    cores: Object.freeze({ A: snapshotCore(ctx.cores.A), B: snapshotCore(ctx.cores.B) }),
+    events: Object.freeze(ctx.events.slice(eventStart)),
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toResolutionQuantar(q: Quantar): ResolutionQuantar {
+  return {
+    id: q.id,
+    owner: q.owner,
+    position: { ...q.position },
+    hp: q.hp,
+    shielded: false,
+    pendingDamage: 0,
+    damageSources: [],
+  };
+}
+
+function toResolutionCore(c: Core): ResolutionCore {
+  return {
+    owner: c.owner,
+    position: { ...c.position },
+    hp: c.hp,
+    pendingDamage: 0,
+    damageSources: [],
+  };
+}
+
+export function toImmutableQuantar(q: ResolutionQuantar): Quantar {
+  return {
+    id: q.id,
+    owner: q.owner,
+    position: { ...q.position },
+    hp: q.hp,
+  };
+}
+
+export function toImmutableCore(c: ResolutionCore): Core {
+  return {
+    owner: c.owner,
+    position: { ...c.position },
+    hp: c.hp,
+  };
+}
+
+/**
+ * Build the state the turn produces from the context as it stands
+ */
+export function toGameState(ctx: ResolutionContext): GameState {
+  return {
+    turn: ctx.state.turn + 1,
+    phase: ctx.ended ? GamePhase.Ended : GamePhase.Playing,
+    quantars: ctx.quantars.map(toImmutableQuantar),
+    cores: {
+      A: toImmutableCore(ctx.cores.A),
+      B: toImmutableCore(ctx.cores.B),
+    },
+    winner: ctx.winner, // null for draw
+    ...(ctx.state.terrain ? { terrain: ctx.state.terrain } : {}),
+    rules: ctx.rules,
+  };
+}
+
+/**
+ * Create the working context for resolving one turn
+ */
+export function createResolutionContext(
+  state: GameState,
+  actions: readonly Action[],
+  rules: GameRules,
+  hooks: ResolutionHooks = {},
+  positionHistory?: readonly Sha256PositionHash[]
+): ResolutionContext {
+  return {
+    state,
+    rules,
+    ...(positionHistory ? { positionHistory } : {}),
+    terrain: state.terrain ?? [],
+    actions,
+    hooks,
+    quantars: state.quantars.map(toResolutionQuantar),
+    cores: {
+      A: toResolutionCore(state.cores.A),
+      B: toResolutionCore(state.cores.B),
+    },
+    events: [],
+    winner: null,
+    ended: false,
+  };
+}
+
+export function getQuantarById(ctx: ResolutionContext, id: string): ResolutionQuantar | undefined {
+  return ctx.quantars.find((q) => q.id === id);
+}
+
+export function getTerrainAtPosition(ctx: ResolutionContext, position: Position): TerrainCell | undefined {
+  return ctx.terrain.find((t) => positionsEqual(t.position, position));
+}
+
+/**
+ * Get the living Quantar or Core on a cell
+ */
+export function getEntityAtPosition(ctx: ResolutionContext, position: Position): ResolutionEntity | null {
+  const quantar = ctx.quantars.find((q) => q.hp > 0 && positionsEqual(q.position, position));
+  if (quantar) {
+    return { type: EntityType.Quantar, entity: quantar };
+  }
+
+  if (positionsEqual(ctx.cores.A.position, position)) {
+    return { type: EntityType.Core, entity: ctx.cores.A };
+  }
+  if (positionsEqual(ctx.cores.B.position, position)) {
+    return { type: EntityType.Core, entity: ctx.cores.B };
+  }
+
+  return null;
+}
@@ -1,5 +1,6 @@
 /**
  * Resolution module exports
  */
+export * from "./context.js";
+export * from "./phases.js";
 export * from "./pipeline.js";
-
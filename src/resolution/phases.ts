@@ -0,0 +1,588 @@
+/**
+ * @quantaris/engine - Resolution Phases
+ *
+ * The standard phases of turn resolution. Each one reads the turn's
+ * actions from the context and mutates it in place.
+ */
+
+import type { MoveAction, PulseAction, ShieldAction, PlayerId, Position, TerrainCell } from "../core/types.js";
+import { ActionType, EntityType, EventType, TERRAIN_PROPERTIES, TiebreakPolicy } from "../core/types.js";
+import { positionsEqual, isInBounds } from "../core/state.js";
+import { applyDirection, applyPulseDirection, isDiagonalPulse } from "../actions/validate.js";
+import { HashAlgorithm, getHashAlgorithm, hashPosition } from "../hash/canonical.js";
+import type {
+  DamageAppliedEvent,
+  EntityDestroyedEvent,
+  ResolutionContext,
+  ResolutionEntity,
+  ResolutionQuantar,
+} from "./context.js";
+import { getQuantarById, getTerrainAtPosition, getEntityAtPosition, toGameState } from "./context.js";
+
+/** A named step of turn resolution */
+export interface ResolutionPhase {
+  readonly name: string;
+  readonly run: (ctx: ResolutionContext) => void;
+}
+
+/** Names of the standard phases, in default order */
+export const PhaseName = {
+  Move: "move",
+  Shield: "shield",
+  Pulse: "pulse",
+  SuddenDeath: "sudden_death",
+  Damage: "damage",
+  Cleanup: "cleanup",
+  WinCondition: "win_condition",
+} as const;
+
+export type PhaseName = (typeof PhaseName)[keyof typeof PhaseName];
+
+// ============================================================================
+// Phase 1: MOVE
+// ============================================================================
+
+interface IntendedMove {
+  quantar: ResolutionQuantar;
+  from: Position;
+  to: Position;
+  action: MoveAction;
+}
+
+function resolveMoves(ctx: ResolutionContext): void {
+  ctx.hooks.beforeMove?.(ctx);
+
+  const moveActions = ctx.actions.filter((a): a is MoveAction => a.type === ActionType.Move);
+
+  // Calculate intended destinations
+  const intendedMoves: IntendedMove[] = [];
+
+  for (const action of moveActions) {
+    const quantar = getQuantarById(ctx, action.quantarId);
+    if (!quantar || quantar.hp <= 0) continue;
+
+    const from = { ...quantar.position };
+    const to = applyDirection(from, action.direction);
+
+    if (!isInBounds(to, ctx.rules)) {
+      ctx.events.push({
+        type: EventType.MoveBlocked,
+        quantarId: quantar.id,
+        from,
+        direction: action.direction,
+        reason: "out of bounds",
+      });
+      continue;
+    }
+
+    const terrain = getTerrainAtPosition(ctx, to);
+    if (terrain && TERRAIN_PROPERTIES[terrain.type].blocksMovement) {
+      ctx.events.push({
+        type: EventType.MoveBlocked,
+        quantarId: quantar.id,
+        from,
+        direction: action.direction,
+        reason: `blocked by ${terrain.type}`,
+      });
+      continue;
+    }
+
+    intendedMoves.push({ quantar, from, to, action });
+  }
+
+  // Check for collisions with Cores (Cores never move)
+  const validMoves = intendedMoves.filter((move) => {
+    const coreCollision =
+      positionsEqual(move.to, ctx.cores.A.position) ||
+      positionsEqual(move.to, ctx.cores.B.position);
+
+    if (coreCollision) {
+      ctx.events.push({
+        type: EventType.MoveBlocked,
+        quantarId: move.quantar.id,
+        from: move.from,
+        direction: move.action.direction,
+        reason: "blocked by Core",
+      });
+      return false;
+    }
+    return true;
+  });
+
+  // Check for head-on collisions (two Quantars moving into same cell)
+  const destinationCounts = new Map<string, number>();
+  for (const move of validMoves) {
+    const key = `${move.to.x},${move.to.y}`;
+    destinationCounts.set(key, (destinationCounts.get(key) ?? 0) + 1);
+  }
+
+  const movesByQuantar = new Map(validMoves.map((m) => [m.quantar.id, m]));
+  const blockReasons = new Map<string, string>();
+
+  const getOccupant = (move: IntendedMove): ResolutionQuantar | undefined =>
+    ctx.quantars.find(
+      (q) => q.hp > 0 && q.id !== move.quantar.id && positionsEqual(q.position, move.to)
+    );
+
+  for (const move of validMoves) {
+    // Multiple Quantars trying to move to same cell
+    if ((destinationCounts.get(`${move.to.x},${move.to.y}`) ?? 0) > 1) {
+      blockReasons.set(move.quantar.id, "collision with another Quantar");
+      continue;
+    }
+
+    // If we're swapping positions (A→B, B→A), both are blocked
+    const occupant = getOccupant(move);
+    const occupantMove = occupant && movesByQuantar.get(occupant.id);
+    if (occupantMove && positionsEqual(occupantMove.to, move.from)) {
+      blockReasons.set(move.quantar.id, "swap collision");
+    }
+  }
+
+  // A move into an occupied cell only succeeds if the occupant's own move
+  // does. Blocked moves leave their Quantar in place, which can block the
+  // move behind it, so iterate until nothing changes.
+  //
+  // Rotation rule: once nothing changes, a remaining move either starts a
+  // chain that ends in an empty cell (the whole chain succeeds) or is part
+  // of a closed cycle longer than a swap (with orthogonal moves, four
+  // Quantars rotating around a 2x2 square). Like a two-way swap, the whole
+  // cycle is blocked. (Nothing outside a cycle can target
+  // a cell in it: that would be a head-on collision with the cycle member
+  // moving there.)
+  const isPending = (move: IntendedMove): boolean => !blockReasons.has(move.quantar.id);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const move of validMoves.filter(isPending)) {
+      const occupant = getOccupant(move);
+      if (!occupant) continue;
+
+      const occupantMove = movesByQuantar.get(occupant.id);
+      // If the occupant is not moving, or its move is blocked, we're blocked
+      if (!occupantMove || !isPending(occupantMove)) {
+        blockReasons.set(move.quantar.id, "blocked by stationary Quantar");
+        changed = true;
+      }
+    }
+  }
+
+  const isInCycle = (move: IntendedMove): boolean => {
+    const visited = new Set<string>();
+    let current: IntendedMove | undefined = move;
+    while (current) {
+      if (visited.has(current.quantar.id)) return true;
+      visited.add(current.quantar.id);
+      const occupant = getOccupant(current);
+      current = occupant && movesByQuantar.get(occupant.id);
+    }
+    return false; // Chain ends in an empty cell, so every move in it succeeds
+  };
+
+  for (const move of validMoves.filter(isPending).filter(isInCycle)) {
+    blockReasons.set(move.quantar.id, "rotation cycle");
+  }
+
+  for (const move of validMoves) {
+    const reason = blockReasons.get(move.quantar.id);
+    if (reason) {
+      ctx.events.push({
+        type: EventType.MoveBlocked,
+        quantarId: move.quantar.id,
+        from: move.from,
+        direction: move.action.direction,
+        reason,
+      });
+    }
+  }
+
+  const finalMoves = validMoves.filter(isPending);
+
+  // Apply valid moves
+  for (const move of finalMoves) {
+    move.quantar.position = { ...move.to };
+    ctx.events.push({
+      type: EventType.Move,
+      quantarId: move.quantar.id,
+      from: move.from,
+      to: move.to,
+    });
+  }
+}
+
+// ============================================================================
+// Phase 2: SHIELD
+// ============================================================================
+
+function resolveShields(ctx: ResolutionContext): void {
+  const shieldActions = ctx.actions.filter((a): a is ShieldAction => a.type === ActionType.Shield);
+
+  for (const action of shieldActions) {
+    const quantar = getQuantarById(ctx, action.quantarId);
+    if (!quantar || quantar.hp <= 0) continue;
+
+    quantar.shielded = true;
+    ctx.events.push({
+      type: EventType.ShieldActivated,
+      quantarId: quantar.id,
+    });
+  }
+}
+
+// ============================================================================
+// Phase 3: PULSE
+// ============================================================================
+
+function resolvePulses(ctx: ResolutionContext): void {
+  const pulseActions = ctx.actions.filter((a): a is PulseAction => a.type === ActionType.Pulse);
+
+  for (const action of pulseActions) {
+    const quantar = getQuantarById(ctx, action.quantarId);
+    if (!quantar || quantar.hp <= 0) continue;
+
+    const isDiagonal = isDiagonalPulse(action.direction);
+
+    ctx.events.push({
+      type: EventType.PulseFired,
+      quantarId: quantar.id,
+      from: { ...quantar.position },
+      direction: action.direction,
+    });
+
+    // Trace the pulse beam
+    let currentPos = { ...quantar.position };
+    let hitTarget: ResolutionEntity | null = null;
+    let hitTerrain: TerrainCell | null = null;
+
+    // Diagonal pulse: melee, range=1 (only check adjacent cell)
+    // Orthogonal pulse: ranged, travels until first hit
+    // A Quantar standing on a pillar is hit; an empty pillar stops the beam
+    const range = isDiagonal ? 1 : Infinity;
+    for (let step = 0; step < range; step++) {
+      currentPos = applyPulseDirection(currentPos, action.direction);
+
+      if (!isInBounds(currentPos, ctx.rules)) {
+        break; // Pulse goes off board
+      }
+
+      const entity = getEntityAtPosition(ctx, currentPos);
+      if (entity) {
+        hitTarget = entity;
+        break;
+      }
+
+      const terrain = getTerrainAtPosition(ctx, currentPos);
+      if (terrain && TERRAIN_PROPERTIES[terrain.type].blocksPulses) {
+        hitTerrain = terrain;
+        break;
+      }
+    }
+
+    if (hitTerrain) {
+      ctx.events.push({
+        type: EventType.TerrainHit,
+        quantarId: quantar.id,
+        position: { ...hitTerrain.position },
+        terrain: hitTerrain.type,
+      });
+    } else if (hitTarget) {
+      hitTarget.entity.pendingDamage += ctx.rules.pulseDamage;
+      hitTarget.entity.damageSources.push({ quantarId: quantar.id, damage: ctx.rules.pulseDamage });
+      ctx.events.push({
+        type: EventType.PulseHit,
+        sourceQuantarId: quantar.id,
+        targetId: hitTarget.type === EntityType.Quantar ? hitTarget.entity.id : `core_${hitTarget.entity.owner}`,
+        targetType: hitTarget.type,
+        position: { ...currentPos },
+        damage: ctx.rules.pulseDamage,
+      });
+    } else {
+      ctx.events.push({
+        type: EventType.PulseMiss,
+        quantarId: quantar.id,
+      });
+    }
+  }
+
+  ctx.hooks.afterPulse?.(ctx);
+}
+
+// ============================================================================
+// Phase 4: Apply Damage
+// ============================================================================
+
+function applyDamage(ctx: ResolutionContext): void {
+  // Apply damage to Quantars
+  for (const quantar of ctx.quantars) {
+    if (quantar.pendingDamage > 0) {
+      // Shield reduces damage
+      const shieldAbsorbed = quantar.shielded
+        ? Math.min(quantar.pendingDamage, ctx.rules.shieldReduction)
+        : 0;
+      const actualDamage = quantar.pendingDamage - shieldAbsorbed;
+
+      quantar.hp -= actualDamage;
+      const event: DamageAppliedEvent = {
+        type: EventType.DamageApplied,
+        targetId: quantar.id,
+        damage: actualDamage,
+        rawDamage: quantar.pendingDamage,
+        shieldAbsorbed,
+        sources: quantar.damageSources,
+        remainingHp: quantar.hp,
+      };
+      ctx.events.push(event);
+
+      quantar.pendingDamage = 0;
+      quantar.damageSources = [];
+      ctx.hooks.onDamage?.(ctx, event);
+    }
+  }
+
+  // Apply damage to Cores (Cores cannot shield)
+  for (const core of [ctx.cores.A, ctx.cores.B]) {
+    if (core.pendingDamage > 0) {
+      core.hp -= core.pendingDamage;
+      const event: DamageAppliedEvent = {
+        type: EventType.DamageApplied,
+        targetId: `core_${core.owner}`,
+        damage: core.pendingDamage,
+        rawDamage: core.pendingDamage,
+        shieldAbsorbed: 0,
+        sources: core.damageSources,
+        remainingHp: core.hp,
+      };
+      ctx.events.push(event);
+      core.pendingDamage = 0;
+      core.damageSources = [];
+      ctx.hooks.onDamage?.(ctx, event);
+    }
+  }
+}
+
+// ============================================================================
+// Phase 5: Remove Dead Entities
+// ============================================================================
+
+function removeDeadEntities(ctx: ResolutionContext): void {
+  for (const quantar of ctx.quantars) {
+    if (quantar.hp <= 0) {
+      const event: EntityDestroyedEvent = {
+        type: EventType.EntityDestroyed,
+        entityId: quantar.id,
+        entityType: EntityType.Quantar,
+      };
+      ctx.events.push(event);
+      ctx.hooks.onDestroy?.(ctx, event);
+    }
+  }
+
+  // Filter out dead Quantars
+  ctx.quantars = ctx.quantars.filter((q) => q.hp > 0);
+
+  // Check Cores
+  for (const core of [ctx.cores.A, ctx.cores.B]) {
+    if (core.hp <= 0) {
+      const event: EntityDestroyedEvent = {
+        type: EventType.EntityDestroyed,
+        entityId: `core_${core.owner}`,
+        entityType: EntityType.Core,
+      };
+      ctx.events.push(event);
+      ctx.hooks.onDestroy?.(ctx, event);
+    }
+  }
+}
+
+// ============================================================================
+// Phase 6: Check Win Condition
+// ============================================================================
+
+interface TiebreakResult {
+  policy: TiebreakPolicy;
+  scoreA: number;
+  scoreB: number;
+}
+
+interface WinConditionResult {
+  winner: PlayerId | null;
+  terminalLoss: PlayerId | null; // Who lost due to 0 quantars (for event logging)
+  isDraw: boolean; // Both players lost simultaneously
+  repetition: boolean; // Position reached rules.repetitionLimit times
+  maxTurnsReached: boolean; // Turn limit hit without a decisive result
+  tiebreak: TiebreakResult | null; // Scores compared at the turn limit
+}
+
+type DecisiveResult = Pick<WinConditionResult, "winner" | "terminalLoss" | "isDraw">;
+
+function checkDecisiveResult(ctx: ResolutionContext): DecisiveResult {
+  // Primary Win: Core destroyed
+  const coreADead = ctx.cores.A.hp <= 0;
+  const coreBDead = ctx.cores.B.hp <= 0;
+
+  if (coreADead && coreBDead) {
+    // Both cores destroyed simultaneously - draw (no winner)
+    return { winner: null, terminalLoss: null, isDraw: true };
+  }
+
+  if (coreADead) {
+    return { winner: "B", terminalLoss: null, isDraw: false };
+  }
+
+  if (coreBDead) {
+    return { winner: "A", terminalLoss: null, isDraw: false };
+  }
+
+  // Terminal Loss: 0 quantars = immediate loss
+  // If player has no living quantars at end of turn, they lose
+  const quantarsA = ctx.quantars.filter(q => q.owner === "A" && q.hp > 0);
+  const quantarsB = ctx.quantars.filter(q => q.owner === "B" && q.hp > 0);
+
+  if (quantarsA.length === 0 && quantarsB.length === 0) {
+    // Both players lost all quantars simultaneously - draw
+    return { winner: null, terminalLoss: null, isDraw: true };
+  }
+
+  if (quantarsA.length === 0) {
+    return { winner: "B", terminalLoss: "A", isDraw: false };
+  }
+
+  if (quantarsB.length === 0) {
+    return { winner: "A", terminalLoss: "B", isDraw: false };
+  }
+
+  return { winner: null, terminalLoss: null, isDraw: false };
+}
+
+function scoreTiebreak(ctx: ResolutionContext, policy: TiebreakPolicy): TiebreakResult | null {
+  const quantarHp = (owner: PlayerId) =>
+    ctx.quantars.filter((q) => q.owner === owner).reduce((sum, q) => sum + q.hp, 0);
+
+  switch (policy) {
+    case TiebreakPolicy.CoreHp:
+      return { policy, scoreA: ctx.cores.A.hp, scoreB: ctx.cores.B.hp };
+    case TiebreakPolicy.QuantarHp:
+      return { policy, scoreA: quantarHp("A"), scoreB: quantarHp("B") };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if the position after this turn has now occurred
+ * rules.repetitionLimit times (needs the caller's position history).
+ * Only SHA-256 hashes are compared: a djb2 collision would end the game
+ * in a draw that never happened.
+ */
+function isRepetition(ctx: ResolutionContext): boolean {
+  const limit = ctx.rules.repetitionLimit;
+  if (limit === 0 || !ctx.positionHistory) {
+    return false;
+  }
+  if (ctx.positionHistory.some((hash) => getHashAlgorithm(hash) !== HashAlgorithm.Sha256)) {
+    throw new RangeError("positionHistory must hold hashPositionSha256(state) values");
+  }
+  const position = hashPosition(toGameState(ctx), HashAlgorithm.Sha256);
+  return ctx.positionHistory.filter((hash) => hash === position).length + 1 >= limit;
+}
+
+function checkWinCondition(ctx: ResolutionContext): WinConditionResult {
+  const result = checkDecisiveResult(ctx);
+  if (result.winner || result.isDraw) {
+    return { ...result, repetition: false, maxTurnsReached: false, tiebreak: null };
+  }
+
+  if (isRepetition(ctx)) {
+    return { ...result, repetition: true, maxTurnsReached: false, tiebreak: null };
+  }
+
+  // Sudden death plays on past the limit until a Core falls
+  const { tiebreak: policy, maxTurns } = ctx.rules;
+  const maxTurnsReached = ctx.state.turn + 1 >= maxTurns && policy !== TiebreakPolicy.SuddenDeath;
+  if (!maxTurnsReached) {
+    return { ...result, repetition: false, maxTurnsReached, tiebreak: null };
+  }
+
+  // Equal scores stay a draw
+  const tiebreak = scoreTiebreak(ctx, policy);
+  const winner =
+    tiebreak && tiebreak.scoreA !== tiebreak.scoreB ? (tiebreak.scoreA > tiebreak.scoreB ? "A" : "B") : null;
+  return { ...result, winner, repetition: false, maxTurnsReached, tiebreak };
+}
+
+function resolveOutcome(ctx: ResolutionContext): void {
+  const { winner, terminalLoss, isDraw, repetition, maxTurnsReached, tiebreak } = checkWinCondition(ctx);
+
+  if (terminalLoss) {
+    ctx.events.push({
+      type: EventType.TerminalLoss,
+      loser: terminalLoss,
+      reason: "no_quantars",
+    });
+  }
+
+  if (tiebreak) {
+    ctx.events.push({
+      type: EventType.Tiebreak,
+      policy: tiebreak.policy,
+      scoreA: tiebreak.scoreA,
+      scoreB: tiebreak.scoreB,
+    });
+  }
+
+  if (winner) {
+    ctx.events.push({
+      type: EventType.GameOver,
+      winner,
+    });
+  }
+
+  // Max turns is a draw unless a tiebreak picked a winner
+  if (isDraw || repetition || (maxTurnsReached && !winner)) {
+    ctx.events.push({
+      type: EventType.Draw,
+      reason: isDraw ? "mutual_destruction" : repetition ? "repetition" : "max_turns",
+    });
+  }
+
+  // Game ends if there's a winner, draw, or max turns reached
+  ctx.winner = winner; // null for draw
+  ctx.ended = winner !== null || isDraw || repetition || maxTurnsReached;
+}
+
+// ============================================================================
+// Sudden Death
+// ============================================================================
+
+/**
+ * Under the sudden-death tiebreak, from the turn that reaches the limit
+ * onwards both Cores take escalating damage (1, 2, 3, ...) each turn.
+ * Runs before the damage phase and adds to the Cores' pending damage, so
+ * each Core still gets a single DAMAGE_APPLIED per turn; damage beyond
+ * the listed sources is sudden death.
+ */
+function applySuddenDeath(ctx: ResolutionContext): void {
+  const nextTurn = ctx.state.turn + 1;
+  if (ctx.rules.tiebreak !== TiebreakPolicy.SuddenDeath || nextTurn < ctx.rules.maxTurns) {
+    return;
+  }
+
+  const damage = nextTurn - ctx.rules.maxTurns + 1;
+  ctx.events.push({ type: EventType.SuddenDeath, damage });
+
+  for (const core of [ctx.cores.A, ctx.cores.B]) {
+    core.pendingDamage += damage;
+  }
+}
+
+// ============================================================================
+// Standard Phases
+// ============================================================================
+
+export const movePhase: ResolutionPhase = { name: PhaseName.Move, run: resolveMoves };
+export const shieldPhase: ResolutionPhase = { name: PhaseName.Shield, run: resolveShields };
+export const pulsePhase: ResolutionPhase = { name: PhaseName.Pulse, run: resolvePulses };
+export const damagePhase: ResolutionPhase = { name: PhaseName.Damage, run: applyDamage };
+export const suddenDeathPhase: ResolutionPhase = { name: PhaseName.SuddenDeath, run: applySuddenDeath };
+export const cleanupPhase: ResolutionPhase = { name: PhaseName.Cleanup, run: removeDeadEntities };
+export const winConditionPhase: ResolutionPhase = { name: PhaseName.WinCondition, run: resolveOutcome };
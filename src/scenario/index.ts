@@ -0,0 +1,4 @@
+/**
+ * Scenario module exports
+ */
+export * from "./loader.js";
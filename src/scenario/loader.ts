@@ -0,0 +1,309 @@
+/**
+ * @quantaris/engine - Scenario Loader
+ *
+ * Declarative starting layouts for puzzles, tutorials and test fixtures.
+ * A scenario is plain JSON; the loader checks it and builds a GameState
+ * that satisfies the same invariants as createInitialState.
+ */
+
+import type {
+  GameRules,
+  GameState,
+  PlayerId,
+  Position,
+  Quantar,
+  TerrainCell,
+  TerrainType,
+} from "../core/types.js";
+import { Player, GamePhase, TERRAIN_PROPERTIES } from "../core/types.js";
+import { DEFAULT_RULES, RULE_KEYS, createRules } from "../core/rules.js";
+import { isInBounds, isValidQuantarId, positionsEqual } from "../core/state.js";
+
+// ============================================================================
+// Scenario Format
+// ============================================================================
+
+export interface ScenarioCore {
+  readonly position: Position;
+  /** Defaults to the ruleset's coreHp */
+  readonly hp?: number;
+}
+
+export interface ScenarioQuantar {
+  readonly id: string;
+  readonly owner: PlayerId;
+  readonly position: Position;
+  /** Defaults to the ruleset's quantarHp */
+  readonly hp?: number;
+}
+
+export interface ScenarioTerrain {
+  readonly position: Position;
+  readonly type: TerrainType;
+}
+
+/** JSON scenario definition */
+export interface Scenario {
+  readonly name?: string;
+  /** Overrides on top of DEFAULT_RULES (board size, HP, turn limit, ...) */
+  readonly rules?: Partial<GameRules>;
+  /** Starting turn (defaults to 1) */
+  readonly turn?: number;
+  readonly cores: {
+    readonly A: ScenarioCore;
+    readonly B: ScenarioCore;
+  };
+  readonly quantars: readonly ScenarioQuantar[];
+  readonly terrain?: readonly ScenarioTerrain[];
+}
+
+// ============================================================================
+// Result Types
+// ============================================================================
+
+export type ScenarioErrorCode =
+  | "INVALID_JSON"
+  | "INVALID_FIELD"
+  | "INVALID_RULES"
+  | "OUT_OF_BOUNDS"
+  | "OVERLAPPING_ENTITIES"
+  | "DUPLICATE_QUANTAR_ID"
+  | "EMPTY_ROSTER";
+
+export interface ScenarioSuccess {
+  readonly valid: true;
+  readonly state: GameState;
+}
+
+export interface ScenarioError {
+  readonly valid: false;
+  readonly error: string;
+  readonly code: ScenarioErrorCode;
+  /** Location of the offending value, e.g. "quantars[2].position" */
+  readonly path: string;
+}
+
+export type ScenarioResult = ScenarioSuccess | ScenarioError;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function fail(code: ScenarioErrorCode, path: string, error: string): ScenarioError {
+  return { valid: false, error: `${path}: ${error}`, code, path };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function checkPosition(value: unknown, path: string, rules: GameRules): ScenarioError | null {
+  if (!isRecord(value) || !Number.isInteger(value.x) || !Number.isInteger(value.y)) {
+    return fail("INVALID_FIELD", path, "expected { x, y } with integer coordinates");
+  }
+  if (!isInBounds(value as unknown as Position, rules)) {
+    const board = `${rules.boardWidth}x${rules.boardHeight}`;
+    return fail("OUT_OF_BOUNDS", path, `(${value.x}, ${value.y}) is outside the ${board} board`);
+  }
+  return null;
+}
+
+function checkHp(value: unknown, path: string): ScenarioError | null {
+  if (value !== undefined && !isPositiveInteger(value)) {
+    return fail("INVALID_FIELD", path, "expected a positive integer");
+  }
+  return null;
+}
+
+function loadRules(value: unknown): { valid: true; rules: GameRules } | ScenarioError {
+  if (value === undefined) {
+    return { valid: true, rules: DEFAULT_RULES };
+  }
+  if (!isRecord(value)) {
+    return fail("INVALID_RULES", "rules", "expected an object");
+  }
+  for (const key of Object.keys(value)) {
+    if (!(RULE_KEYS as readonly string[]).includes(key)) {
+      return fail("INVALID_RULES", `rules.${key}`, "unknown rule");
+    }
+  }
+  try {
+    return { valid: true, rules: createRules(value as Partial<GameRules>) };
+  } catch (e) {
+    return fail("INVALID_RULES", "rules", (e as Error).message);
+  }
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+/**
+ * Check a scenario definition and build its starting GameState.
+ *
+ * Rejects malformed fields, out-of-bounds placements, entities sharing a
+ * cell (only pillars may hold a quantar), duplicate quantar ids and sides
+ * without quantars.
+ */
+export function loadScenario(input: unknown): ScenarioResult {
+  if (!isRecord(input)) {
+    return fail("INVALID_FIELD", "scenario", "expected an object");
+  }
+
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return fail("INVALID_FIELD", "name", "expected a string");
+  }
+
+  const loadedRules = loadRules(input.rules);
+  if (!loadedRules.valid) {
+    return loadedRules;
+  }
+  const rules = loadedRules.rules;
+
+  const turn = input.turn ?? 1;
+  if (!isPositiveInteger(turn)) {
+    return fail("INVALID_FIELD", "turn", "expected a positive integer");
+  }
+  if (turn >= rules.maxTurns) {
+    return fail("INVALID_FIELD", "turn", `must be below the turn limit (${rules.maxTurns})`);
+  }
+
+  // Cores
+  if (!isRecord(input.cores)) {
+    return fail("INVALID_FIELD", "cores", "expected { A, B }");
+  }
+  const occupied: Array<{ position: Position; path: string; blocksMovement: boolean }> = [];
+  const cores = {} as Record<PlayerId, { owner: PlayerId; position: Position; hp: number }>;
+
+  for (const owner of [Player.A, Player.B]) {
+    const path = `cores.${owner}`;
+    const core = input.cores[owner];
+    if (!isRecord(core)) {
+      return fail("INVALID_FIELD", path, "expected { position, hp? }");
+    }
+    const positionError = checkPosition(core.position, `${path}.position`, rules);
+    if (positionError) return positionError;
+    const hpError = checkHp(core.hp, `${path}.hp`);
+    if (hpError) return hpError;
+
+    const position = core.position as Position;
+    const clash = occupied.find((o) => positionsEqual(o.position, position));
+    if (clash) {
+      return fail("OVERLAPPING_ENTITIES", `${path}.position`, `cell already occupied by ${clash.path}`);
+    }
+    cores[owner] = {
+      owner,
+      position: { x: position.x, y: position.y },
+      hp: (core.hp as number | undefined) ?? rules.coreHp,
+    };
+    occupied.push({ position, path, blocksMovement: true });
+  }
+
+  // Terrain
+  if (input.terrain !== undefined && !Array.isArray(input.terrain)) {
+    return fail("INVALID_FIELD", "terrain", "expected an array");
+  }
+  const terrain: TerrainCell[] = [];
+
+  for (const [i, cell] of (input.terrain ?? []).entries()) {
+    const path = `terrain[${i}]`;
+    if (!isRecord(cell)) {
+      return fail("INVALID_FIELD", path, "expected { position, type }");
+    }
+    if (typeof cell.type !== "string" || !Object.hasOwn(TERRAIN_PROPERTIES, cell.type)) {
+      const types = Object.keys(TERRAIN_PROPERTIES).join(", ");
+      return fail("INVALID_FIELD", `${path}.type`, `expected one of ${types}`);
+    }
+    const positionError = checkPosition(cell.position, `${path}.position`, rules);
+    if (positionError) return positionError;
+
+    const position = cell.position as Position;
+    const type = cell.type as TerrainType;
+    const clash = occupied.find((o) => positionsEqual(o.position, position));
+    if (clash) {
+      return fail("OVERLAPPING_ENTITIES", `${path}.position`, `cell already occupied by ${clash.path}`);
+    }
+
+    occupied.push({ position, path, blocksMovement: TERRAIN_PROPERTIES[type].blocksMovement });
+    terrain.push({ position: { x: position.x, y: position.y }, type });
+  }
+
+  // Quantars
+  if (!Array.isArray(input.quantars)) {
+    return fail("INVALID_FIELD", "quantars", "expected an array");
+  }
+  const quantars: Quantar[] = [];
+  const ids = new Set<string>();
+
+  for (const [i, quantar] of input.quantars.entries()) {
+    const path = `quantars[${i}]`;
+    if (!isRecord(quantar)) {
+      return fail("INVALID_FIELD", path, "expected { id, owner, position, hp? }");
+    }
+    if (!isValidQuantarId(quantar.id)) {
+      return fail("INVALID_FIELD", `${path}.id`, "expected non-empty string of letters, digits and underscores");
+    }
+    if (ids.has(quantar.id)) {
+      return fail("DUPLICATE_QUANTAR_ID", `${path}.id`, `duplicate id ${quantar.id}`);
+    }
+    if (quantar.owner !== Player.A && quantar.owner !== Player.B) {
+      return fail("INVALID_FIELD", `${path}.owner`, `expected "${Player.A}" or "${Player.B}"`);
+    }
+    const positionError = checkPosition(quantar.position, `${path}.position`, rules);
+    if (positionError) return positionError;
+    const hpError = checkHp(quantar.hp, `${path}.hp`);
+    if (hpError) return hpError;
+
+    // Quantars may stand on terrain that does not block movement (pillars)
+    const position = quantar.position as Position;
+    const clash = occupied.find((o) => o.blocksMovement && positionsEqual(o.position, position));
+    if (clash) {
+      return fail("OVERLAPPING_ENTITIES", `${path}.position`, `cell already occupied by ${clash.path}`);
+    }
+
+    ids.add(quantar.id);
+    occupied.push({ position, path, blocksMovement: true });
+    quantars.push({
+      id: quantar.id,
+      owner: quantar.owner,
+      position: { x: position.x, y: position.y },
+      hp: (quantar.hp as number | undefined) ?? rules.quantarHp,
+    });
+  }
+
+  for (const owner of [Player.A, Player.B]) {
+    if (!quantars.some((q) => q.owner === owner)) {
+      return fail("EMPTY_ROSTER", "quantars", `player ${owner} has no quantars`);
+    }
+  }
+
+  return {
+    valid: true,
+    state: {
+      turn,
+      phase: GamePhase.Playing,
+      quantars,
+      cores,
+      winner: null,
+      ...(terrain.length > 0 ? { terrain } : {}),
+      rules,
+    },
+  };
+}
+
+/**
+ * Parse scenario JSON text and build its starting GameState.
+ */
+export function parseScenario(json: string): ScenarioResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch (e) {
+    return fail("INVALID_JSON", "scenario", (e as Error).message);
+  }
+  return loadScenario(input);
+}
@@ -0,0 +1,4 @@
+/**
+ * Sync module exports
+ */
+export * from "./patch.js";
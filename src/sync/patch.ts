@@ -0,0 +1,225 @@
+/**
+ * @quantaris/engine - State Patches
+ *
+ * Minimal deltas between two states of a game, for pushing turn updates
+ * to clients without resending the whole GameState. Every patch carries
+ * the hashes of the state it applies to and the state it produces, so a
+ * client that has drifted out of sync finds out on the next patch.
+ */
+
+import type { Core, GamePhase, GameState, PlayerId, Position, Quantar } from "../core/types.js";
+import { Player } from "../core/types.js";
+import { isValidQuantarId, positionsEqual } from "../core/state.js";
+import type { HashAlgorithm } from "../hash/canonical.js";
+import { getHashAlgorithm, hashState } from "../hash/canonical.js";
+
+// ============================================================================
+// Patch Types
+// ============================================================================
+
+/** Changed fields of a quantar present in both states */
+export interface QuantarPatch {
+  readonly id: string;
+  readonly position?: Position;
+  readonly hp?: number;
+}
+
+/** Changed fields of a core */
+export interface CorePatch {
+  readonly position?: Position;
+  readonly hp?: number;
+}
+
+/**
+ * Difference between two states. Fields are present only when they
+ * changed; terrain and rules are static during a game and are not diffed.
+ */
+export interface StatePatch {
+  /** hashState of the state the patch applies to */
+  readonly baseHash: string;
+  /** hashState of the state the patch produces */
+  readonly resultHash: string;
+  readonly turn?: number;
+  readonly phase?: GamePhase;
+  readonly winner?: PlayerId | null;
+  readonly cores?: Partial<Record<PlayerId, CorePatch>>;
+  readonly quantars?: readonly QuantarPatch[];
+  /** Ids of quantars no longer on the board */
+  readonly removedQuantars?: readonly string[];
+  /** Quantars not in the base state */
+  readonly addedQuantars?: readonly Quantar[];
+}
+
+export type PatchErrorCode = "BASE_MISMATCH" | "RESULT_MISMATCH" | "INVALID_QUANTAR_ID";
+
+export type PatchResult =
+  | { readonly valid: true; readonly state: GameState }
+  | {
+      readonly valid: false;
+      readonly error: string;
+      readonly code: "BASE_MISMATCH" | "RESULT_MISMATCH";
+      /** Hash recorded in the patch */
+      readonly expected: string;
+      /** Hash of the state actually found or produced */
+      readonly actual: string;
+    }
+  | {
+      readonly valid: false;
+      readonly error: string;
+      readonly code: "INVALID_QUANTAR_ID";
+      /** The added quantar's id, which isValidQuantarId rejects */
+      readonly quantarId: string;
+    };
+
+export interface DiffOptions {
+  /** Algorithm for baseHash and resultHash (defaults to djb2) */
+  readonly algorithm?: HashAlgorithm;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function diffPosition(prev: Position, next: Position): { position?: Position } {
+  return positionsEqual(prev, next) ? {} : { position: next };
+}
+
+function diffHp(prev: number, next: number): { hp?: number } {
+  return prev === next ? {} : { hp: next };
+}
+
+function diffCore(prev: Core, next: Core): CorePatch | null {
+  const patch = { ...diffPosition(prev.position, next.position), ...diffHp(prev.hp, next.hp) };
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+/**
+ * Compute the patch that turns `prev` into `next`.
+ *
+ * Both states should belong to the same game; differences in terrain or
+ * rules are not captured, and applyStatePatch will report them as a
+ * RESULT_MISMATCH.
+ */
+export function diffStates(prev: GameState, next: GameState, options: DiffOptions = {}): StatePatch {
+  const prevQuantars = new Map(prev.quantars.map((q) => [q.id, q]));
+  const nextIds = new Set(next.quantars.map((q) => q.id));
+
+  const quantars: QuantarPatch[] = [];
+  const addedQuantars: Quantar[] = [];
+  for (const q of next.quantars) {
+    const before = prevQuantars.get(q.id);
+    if (!before || before.owner !== q.owner) {
+      addedQuantars.push(q);
+      continue;
+    }
+    const patch = { ...diffPosition(before.position, q.position), ...diffHp(before.hp, q.hp) };
+    if (Object.keys(patch).length > 0) {
+      quantars.push({ id: q.id, ...patch });
+    }
+  }
+  const removedQuantars = prev.quantars
+    .filter((q) => !nextIds.has(q.id) || addedQuantars.some((a) => a.id === q.id))
+    .map((q) => q.id);
+
+  const cores: Partial<Record<PlayerId, CorePatch>> = {};
+  for (const owner of [Player.A, Player.B]) {
+    const patch = diffCore(prev.cores[owner], next.cores[owner]);
+    if (patch) {
+      cores[owner] = patch;
+    }
+  }
+
+  return {
+    baseHash: hashState(prev, options.algorithm),
+    resultHash: hashState(next, options.algorithm),
+    ...(prev.turn !== next.turn ? { turn: next.turn } : {}),
+    ...(prev.phase !== next.phase ? { phase: next.phase } : {}),
+    ...(prev.winner !== next.winner ? { winner: next.winner } : {}),
+    ...(Object.keys(cores).length > 0 ? { cores } : {}),
+    ...(quantars.length > 0 ? { quantars } : {}),
+    ...(removedQuantars.length > 0 ? { removedQuantars } : {}),
+    ...(addedQuantars.length > 0 ? { addedQuantars } : {}),
+  };
+}
+
+// ============================================================================
+// Apply
+// ============================================================================
+
+function applyChange<T extends Quantar | Core>(entity: T, change: CorePatch): T {
+  return {
+    ...entity,
+    ...(change.position ? { position: change.position } : {}),
+    ...(change.hp !== undefined ? { hp: change.hp } : {}),
+  };
+}
+
+/**
+ * Apply a patch produced by diffStates.
+ *
+ * Fails with BASE_MISMATCH if `prev` is not the state the patch was made
+ * from, and with RESULT_MISMATCH if the patched state does not hash to
+ * `resultHash`. Either way the client is out of sync and should fetch
+ * the full state. Added quantars must have valid ids (INVALID_QUANTAR_ID):
+ * other ids could make the result hash match a different state.
+ */
+export function applyStatePatch(prev: GameState, patch: StatePatch): PatchResult {
+  const algorithm = getHashAlgorithm(patch.baseHash);
+  const baseHash = hashState(prev, algorithm);
+  if (baseHash !== patch.baseHash) {
+    return {
+      valid: false,
+      error: "Patch does not apply to this state",
+      code: "BASE_MISMATCH",
+      expected: patch.baseHash,
+      actual: baseHash,
+    };
+  }
+
+  const badId = patch.addedQuantars?.find((q) => !isValidQuantarId(q.id));
+  if (badId) {
+    return {
+      valid: false,
+      error: `Invalid quantar id ${JSON.stringify(badId.id)}`,
+      code: "INVALID_QUANTAR_ID",
+      quantarId: badId.id,
+    };
+  }
+
+  // Changes to quantars that are not on the board are dropped; the result
+  // hash check below then reports the patch as not matching
+  const removed = new Set(patch.removedQuantars ?? []);
+  const changes = new Map((patch.quantars ?? []).map((q) => [q.id, q]));
+  const quantars: Quantar[] = prev.quantars
+    .filter((q) => !removed.has(q.id))
+    .map((q) => {
+      const change = changes.get(q.id);
+      return change ? applyChange(q, change) : q;
+    });
+  quantars.push(...(patch.addedQuantars ?? []));
+
+  const state: GameState = {
+    ...prev,
+    turn: patch.turn ?? prev.turn,
+    phase: patch.phase ?? prev.phase,
+    winner: patch.winner !== undefined ? patch.winner : prev.winner,
+    cores: {
+      A: patch.cores?.A ? applyChange(prev.cores.A, patch.cores.A) : prev.cores.A,
+      B: patch.cores?.B ? applyChange(prev.cores.B, patch.cores.B) : prev.cores.B,
+    },
+    quantars,
+  };
+
+  const resultHash = hashState(state, algorithm);
+  if (resultHash !== patch.resultHash) {
+    return {
+      valid: false,
+      error: "Patched state does not match the expected result",
+      code: "RESULT_MISMATCH",
+      expected: patch.resultHash,
+      actual: resultHash,
+    };
+  }
+
+  return { valid: true, state };
+}
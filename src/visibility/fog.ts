@@ -0,0 +1,215 @@
+/**
+ * @quantaris/engine - Fog of War
+ *
+ * Player views for the hidden-information variant (rules.visibility).
+ * The server keeps resolving and validating against the full state; these
+ * functions decide what each player is sent. Terrain and both Cores are
+ * always visible, as are the player's own quantars.
+ */
+
+import type { GameState, PlayerId, Position, TurnEvent, TurnLog } from "../core/types.js";
+import { EventType, GamePhase, TERRAIN_PROPERTIES, VisibilityMode, ALL_PULSE_DIRECTIONS } from "../core/types.js";
+import { getEntityAt, getPlayerQuantars, getTerrainAt, isInBounds } from "../core/state.js";
+import { getRules } from "../core/rules.js";
+import { applyPulseDirection, isDiagonalPulse } from "../actions/validate.js";
+
+// ============================================================================
+// Vision
+// ============================================================================
+
+const cellKey = (p: Position): string => `${p.x},${p.y}`;
+
+/**
+ * Cells seen from a set of vantage points. Lanes follow the pulse trace:
+ * the first entity in an orthogonal lane is seen, even on a pillar, and
+ * hides everything behind it; empty pulse-blocking terrain ends the lane.
+ */
+function collectVision(state: GameState, from: readonly Position[]): Set<string> | null {
+  const rules = getRules(state);
+  const visible = new Set<string>(from.map(cellKey));
+
+  switch (rules.visibility) {
+    case VisibilityMode.Radius:
+      for (const origin of from) {
+        for (let dy = -rules.visionRadius; dy <= rules.visionRadius; dy++) {
+          const span = rules.visionRadius - Math.abs(dy);
+          for (let dx = -span; dx <= span; dx++) {
+            const cell = { x: origin.x + dx, y: origin.y + dy };
+            if (isInBounds(cell, rules)) visible.add(cellKey(cell));
+          }
+        }
+      }
+      return visible;
+
+    case VisibilityMode.Lanes:
+      for (const origin of from) {
+        for (const direction of ALL_PULSE_DIRECTIONS) {
+          const range = isDiagonalPulse(direction) ? 1 : Infinity;
+          let cell = origin;
+          for (let step = 0; step < range; step++) {
+            cell = applyPulseDirection(cell, direction);
+            if (!isInBounds(cell, rules)) break;
+            if (getEntityAt(state, cell)) {
+              visible.add(cellKey(cell));
+              break;
+            }
+            const terrain = getTerrainAt(state, cell);
+            if (terrain && TERRAIN_PROPERTIES[terrain.type].blocksPulses) break;
+            visible.add(cellKey(cell));
+          }
+        }
+      }
+      return visible;
+
+    default:
+      return null; // Full visibility
+  }
+}
+
+function ownPositions(state: GameState, playerId: PlayerId): Position[] {
+  return getPlayerQuantars(state, playerId).map((q) => q.position);
+}
+
+/**
+ * Every cell a player can see, row by row. Under VisibilityMode.Full this
+ * is the whole board.
+ */
+export function getVisibleCells(state: GameState, playerId: PlayerId): Position[] {
+  const rules = getRules(state);
+  const vision = collectVision(state, ownPositions(state, playerId));
+  const cells: Position[] = [];
+  for (let y = 0; y < rules.boardHeight; y++) {
+    for (let x = 0; x < rules.boardWidth; x++) {
+      if (!vision || vision.has(cellKey({ x, y }))) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+// ============================================================================
+// Player Views
+// ============================================================================
+
+/** Stands in for the id of an opponent quantar the player cannot see */
+export const HIDDEN_QUANTAR_ID = "?";
+
+/** Stands in for a cell the player cannot see; off the board, so it never names a real cell */
+export const HIDDEN_POSITION: Position = { x: -1, y: -1 };
+
+/**
+ * The state as `playerId` may see it: opponent quantars outside the
+ * player's vision are removed. Returned unchanged under full visibility
+ * and once the game has ended.
+ *
+ * The view is for display and client-side previews; its hash differs
+ * from the real state's, and turns must still be validated and resolved
+ * against the full state.
+ */
+export function projectStateForPlayer(state: GameState, playerId: PlayerId): GameState {
+  const vision = collectVision(state, ownPositions(state, playerId));
+  if (!vision || state.phase === GamePhase.Ended) {
+    return state;
+  }
+  return {
+    ...state,
+    quantars: state.quantars.filter((q) => q.owner === playerId || vision.has(cellKey(q.position))),
+  };
+}
+
+/**
+ * The events of a turn that `playerId` could observe.
+ *
+ * `state` is the state the turn was resolved from. Vision is what the
+ * player's quantars see before and after their moves; an opponent's
+ * event is kept if it happens in view. Events about the player's own
+ * quantars and Cores, and game-level events (GAME_OVER, DRAW, TIEBREAK,
+ * SUDDEN_DEATH, TERMINAL_LOSS), are always kept. In the events kept, the
+ * ids of opponent quantars out of sight (such as the shooter of a pulse
+ * that hits the player's units) are replaced by HIDDEN_QUANTAR_ID, and
+ * cells out of sight (such as where an opponent moved out of view) by
+ * HIDDEN_POSITION.
+ */
+export function filterLogForPlayer(log: TurnLog, playerId: PlayerId, state: GameState): TurnLog {
+  // Follow quantars through the turn's moves
+  const positions = new Map(state.quantars.map((q) => [q.id, q.position]));
+  const owners = new Map(state.quantars.map((q) => [q.id, q.owner]));
+  for (const event of log.events) {
+    if (event.type === EventType.Move) positions.set(event.quantarId, event.to);
+  }
+  const afterMoves = getPlayerQuantars(state, playerId).map((q) => positions.get(q.id) ?? q.position);
+  const visible = collectVision(state, [...ownPositions(state, playerId), ...afterMoves]);
+  if (!visible) {
+    return log;
+  }
+
+  // Reset to the start of the turn, then replay positions event by event
+  for (const q of state.quantars) positions.set(q.id, q.position);
+
+  const isOwn = (id: string) => owners.get(id) === playerId || id === `core_${playerId}`;
+  const isCore = (id: string) => !owners.has(id);
+  const inView = (p: Position | undefined) => p !== undefined && visible.has(cellKey(p));
+  const seen = (id: string) => isOwn(id) || inView(positions.get(id));
+  const reveal = (id: string) => (isCore(id) || seen(id) ? id : HIDDEN_QUANTAR_ID);
+  const revealCell = (p: Position) => (inView(p) ? p : HIDDEN_POSITION);
+
+  const redact = (event: TurnEvent): TurnEvent => {
+    switch (event.type) {
+      case EventType.Move:
+        if (isOwn(event.quantarId)) return event;
+        return {
+          ...event,
+          quantarId: inView(event.from) || inView(event.to) ? event.quantarId : HIDDEN_QUANTAR_ID,
+          from: revealCell(event.from),
+          to: revealCell(event.to),
+        };
+      case EventType.PulseHit:
+        return {
+          ...event,
+          sourceQuantarId: reveal(event.sourceQuantarId),
+          targetId: reveal(event.targetId),
+          // Cores are always visible, wherever they stand
+          position: isCore(event.targetId) ? event.position : revealCell(event.position),
+        };
+      case EventType.TerrainHit:
+        return { ...event, quantarId: reveal(event.quantarId) };
+      case EventType.DamageApplied:
+        return { ...event, sources: event.sources.map((s) => ({ ...s, quantarId: reveal(s.quantarId) })) };
+      default:
+        return event;
+    }
+  };
+
+  const observable = (event: TurnEvent): boolean => {
+    switch (event.type) {
+      case EventType.Move:
+        return isOwn(event.quantarId) || inView(event.from) || inView(event.to);
+      case EventType.MoveBlocked:
+      case EventType.PulseFired:
+        return isOwn(event.quantarId) || inView(event.from);
+      case EventType.PulseHit:
+        return isOwn(event.sourceQuantarId) || isOwn(event.targetId) || inView(event.position);
+      case EventType.TerrainHit:
+        return seen(event.quantarId) || inView(event.position);
+      case EventType.PulseMiss:
+      case EventType.ShieldActivated:
+        return seen(event.quantarId);
+      case EventType.DamageApplied:
+        return isCore(event.targetId) || seen(event.targetId);
+      case EventType.EntityDestroyed:
+        return isCore(event.entityId) || seen(event.entityId);
+      case EventType.GameOver:
+      case EventType.TerminalLoss:
+      case EventType.Tiebreak:
+      case EventType.SuddenDeath:
+      case EventType.Draw:
+        return true;
+    }
+  };
+
+  const events: TurnEvent[] = [];
+  for (const event of log.events) {
+    if (observable(event)) events.push(redact(event));
+    if (event.type === EventType.Move) positions.set(event.quantarId, event.to);
+  }
+  return { ...log, events };
+}
@@ -0,0 +1,4 @@
+/**
+ * Visibility module exports
+ */
+export * from "./fog.js";
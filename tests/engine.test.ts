@@ -3,7 +3,16 @@ import {
   createInitialState,
   resolveTurn,
   validatePlayerActions,
+  validateAllPlayerActions,
   hashState,
+  hashPosition,
+  hashPositionSha256,
+  canonicalizePosition,
+  detectRepetition,
+  getPositionHistory,
+  createReplayTurn,
+  getReplayGenesisHash,
+  createReplay,
   statesEqual,
   getQuantar,
   getPlayerQuantars,
@@ -12,6 +21,8 @@ import {
   QUANTAR_HP,
   QUANTARS_PER_PLAYER,
   MAX_TURNS,
+  DEFAULT_RULES,
+  createRules,
   Direction,
   PulseDirection,
   ActionType,
@@ -19,8 +30,20 @@ import {
   Player,
   EventType,
   isDiagonalPulse,
+  getTerrainAt,
+  isInBounds,
+  getLegalActions,
+  enumerateLegalTurns,
+  lintPlayerActions,
+  TerrainType,
+  TiebreakPolicy,
+  DEFAULT_PIPELINE,
+  PhaseName,
+  removePhase,
   type Action,
   type GameState,
+  type TurnEvent,
+  type ReplayTurn,
 } from "../src/index.js";
 
 describe("createInitialState", () => {
@@ -169,6 +192,72 @@ describe("validatePlayerActions", () => {
   });
 });
 
+describe("validateAllPlayerActions", () => {
+  it("reports no errors for a valid turn", () => {
+    const state = createInitialState();
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+
+    expect(validateAllPlayerActions(state, actions, Player.A)).toEqual({ valid: true, errors: [] });
+  });
+
+  it("reports every offending action with its index and quantar", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A3" ? { ...q, position: { x: 8, y: 6 } } : q)),
+    };
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "B1", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+      { type: ActionType.Move, quantarId: "A3", direction: Direction.East },
+      { type: ActionType.Move, quantarId: "A2", direction: "UP" as Direction },
+    ];
+
+    const report = validateAllPlayerActions(state, actions, Player.A);
+
+    expect(report.valid).toBe(false);
+    expect(report.errors.map(({ code, quantarId, actionIndex }) => ({ code, quantarId, actionIndex }))).toEqual([
+      { code: "QUANTAR_NOT_OWNED", quantarId: "B1", actionIndex: 0 },
+      { code: "DUPLICATE_QUANTAR_ACTION", quantarId: "A3", actionIndex: 2 },
+      { code: "INVALID_DIRECTION", quantarId: "A2", actionIndex: 3 },
+      { code: "MISSING_QUANTAR_ACTION", quantarId: "A1", actionIndex: undefined },
+    ]);
+  });
+
+  it("agrees with validatePlayerActions on the first error", () => {
+    const state = createInitialState();
+    const actions: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Move, quantarId: "Z9", direction: Direction.North },
+    ];
+
+    const report = validateAllPlayerActions(state, actions, Player.A);
+    const first = validatePlayerActions(state, actions, Player.A);
+
+    expect(report.errors).toHaveLength(3); // Unknown Z9, missing A2 and A3
+    expect(first).toEqual(report.errors[0]);
+  });
+
+  it("reports malformed entries instead of throwing", () => {
+    const state = createInitialState();
+    const actions = [null, { type: ActionType.Shield, quantarId: "A2" }] as unknown as Action[];
+
+    const report = validateAllPlayerActions(state, actions, Player.A);
+    expect(report.errors[0]).toMatchObject({ code: "INVALID_ACTION_TYPE", actionIndex: 0 });
+  });
+
+  it("reports an ended game once", () => {
+    const state = { ...createInitialState(), phase: GamePhase.Ended };
+
+    const report = validateAllPlayerActions(state, [], Player.A);
+    expect(report.errors.map((e) => e.code)).toEqual(["GAME_NOT_IN_ACTION_PHASE"]);
+  });
+});
+
 describe("resolveTurn", () => {
   it("resolves a simple turn with all shields", () => {
     const state = createInitialState();
@@ -431,6 +520,170 @@ describe("MAX_TURNS and draw condition", () => {
   });
 });
 
+describe("Tiebreak policies", () => {
+  const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+  const atLimit = (tiebreak: TiebreakPolicy, coreBHp = CORE_HP): GameState => {
+    const base = createInitialState(createRules({ tiebreak }));
+    return { ...base, turn: MAX_TURNS - 1, cores: { ...base.cores, B: { ...base.cores.B, hp: coreBHp } } };
+  };
+  const resolveShields = (state: GameState) =>
+    resolveTurn({ state, actionsA: shields(["A1", "A2", "A3"]), actionsB: shields(["B1", "B2", "B3"]) });
+
+  it("draws by default", () => {
+    const result = resolveShields(atLimit(TiebreakPolicy.Draw, 3));
+    expect(result.state.winner).toBeNull();
+    expect(result.log.events.some((e) => e.type === EventType.Tiebreak)).toBe(false);
+  });
+
+  it("awards the game on Core HP", () => {
+    const result = resolveShields(atLimit(TiebreakPolicy.CoreHp, 3));
+
+    expect(result.state.phase).toBe(GamePhase.Ended);
+    expect(result.state.winner).toBe(Player.A);
+    expect(result.log.events.slice(-2)).toEqual([
+      { type: EventType.Tiebreak, policy: TiebreakPolicy.CoreHp, scoreA: CORE_HP, scoreB: 3 },
+      { type: EventType.GameOver, winner: Player.A },
+    ]);
+  });
+
+  it("awards the game on total quantar HP", () => {
+    const base = atLimit(TiebreakPolicy.QuantarHp);
+    const state = { ...base, quantars: base.quantars.map((q) => (q.id === "A1" ? { ...q, hp: 1 } : q)) };
+
+    expect(resolveShields(state).state.winner).toBe(Player.B);
+  });
+
+  it("draws on equal tiebreak scores", () => {
+    const result = resolveShields(atLimit(TiebreakPolicy.CoreHp));
+
+    expect(result.state.phase).toBe(GamePhase.Ended);
+    expect(result.state.winner).toBeNull();
+    expect(result.log.events.at(-1)).toEqual({ type: EventType.Draw, reason: "max_turns" });
+  });
+
+  it("applies escalating Core damage in sudden death", () => {
+    const first = resolveShields(atLimit(TiebreakPolicy.SuddenDeath, 3));
+    expect(first.state.phase).toBe(GamePhase.Playing);
+    expect(first.log.events).toContainEqual({ type: EventType.SuddenDeath, damage: 1 });
+    expect(first.state.cores.B.hp).toBe(2);
+
+    const second = resolveShields(first.state);
+    expect(second.state.cores.A.hp).toBe(CORE_HP - 3);
+    expect(second.state.cores.B.hp).toBe(0);
+    expect(second.state.phase).toBe(GamePhase.Ended);
+    expect(second.state.winner).toBe(Player.A);
+  });
+
+  it("merges sudden death into the turn's damage to each Core", () => {
+    const base = atLimit(TiebreakPolicy.SuddenDeath);
+    const state = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A2" ? { ...q, position: { x: 4, y: 1 } } : q)),
+    };
+    const actionsA: Action[] = [
+      ...shields(["A1", "A3"]),
+      { type: ActionType.Pulse, quantarId: "A2", direction: PulseDirection.North },
+    ];
+    const result = resolveTurn({ state, actionsA, actionsB: shields(["B1", "B2", "B3"]) });
+    const coreDamage = result.log.events.filter((e) => e.type === EventType.DamageApplied);
+
+    expect(coreDamage).toEqual([
+      expect.objectContaining({ targetId: "core_A", damage: 1, sources: [] }),
+      expect.objectContaining({
+        targetId: "core_B",
+        damage: 2,
+        sources: [{ quantarId: "A2", damage: 1 }],
+        remainingHp: CORE_HP - 2,
+      }),
+    ]);
+  });
+
+  it("refuses a sudden-death game without its phase", () => {
+    const input = { state: atLimit(TiebreakPolicy.SuddenDeath), actionsA: [], actionsB: [] };
+    const pipeline = removePhase(DEFAULT_PIPELINE, PhaseName.SuddenDeath);
+
+    expect(() => resolveTurn(input, { pipeline })).toThrow(RangeError);
+    expect(() => resolveTurn({ ...input, state: atLimit(TiebreakPolicy.CoreHp) }, { pipeline })).not.toThrow();
+  });
+
+  it("rejects unknown policies", () => {
+    expect(() => createRules({ tiebreak: "coin_flip" as TiebreakPolicy })).toThrow(RangeError);
+  });
+
+  it("hashes non-default policies", () => {
+    const state = createInitialState(createRules({ tiebreak: TiebreakPolicy.CoreHp }));
+    expect(hashState(state)).not.toBe(hashState(createInitialState()));
+  });
+});
+
+describe("Repetition", () => {
+  const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+  const shuffle = (direction: Direction): Action[] => [
+    { type: ActionType.Move, quantarId: "A1", direction },
+    ...shields(["A2", "A3"]),
+  ];
+
+  /** A1 steps north and back while everyone else shields */
+  const play = (state: GameState, turns: number) => {
+    const history = [hashPositionSha256(state)];
+    const replayTurns: ReplayTurn[] = [];
+    let result = { state, log: { turn: state.turn, events: [] as readonly TurnEvent[] } };
+    for (let i = 0; i < turns && result.state.phase === GamePhase.Playing; i++) {
+      const actionsA = shuffle(i % 2 === 0 ? Direction.North : Direction.South);
+      const actionsB = shields(["B1", "B2", "B3"]);
+      const input = { state: result.state, actionsA, actionsB, positionHistory: history };
+      result = resolveTurn(input);
+      const previousChainHash = replayTurns.at(-1)?.chainHash ?? getReplayGenesisHash(state);
+      replayTurns.push(createReplayTurn(input.state, actionsA, actionsB, result.log, { previousChainHash }));
+      history.push(hashPositionSha256(result.state));
+    }
+    return { result, history, replay: createReplay(state, replayTurns, result.state) };
+  };
+
+  it("ignores the turn counter in position hashes", () => {
+    const state = createInitialState();
+    expect(hashPosition({ ...state, turn: 7 })).toBe(hashPosition(state));
+    expect(hashState({ ...state, turn: 7 })).not.toBe(hashState(state));
+    expect(canonicalizePosition(state)).not.toContain("T:");
+  });
+
+  it("detects N-fold repetition in a hash sequence", () => {
+    expect(detectRepetition(["a", "b", "a", "b", "a"], 3)).toEqual({ hash: "a", indices: [0, 2, 4] });
+    expect(detectRepetition(["a", "b", "a"], 3)).toBeNull();
+  });
+
+  it("detects repetition in a replay", () => {
+    const { replay, history } = play(createInitialState(), 4);
+
+    expect(getPositionHistory(replay)).toEqual(history);
+    expect(detectRepetition(replay, 3)?.indices).toEqual([0, 2, 4]);
+  });
+
+  it("ends the game with a repetition draw when the rule is on", () => {
+    const { result } = play(createInitialState(createRules({ repetitionLimit: 3 })), 10);
+
+    expect(result.state.turn).toBe(5);
+    expect(result.state.phase).toBe(GamePhase.Ended);
+    expect(result.log.events.at(-1)).toEqual({ type: EventType.Draw, reason: "repetition" });
+  });
+
+  it("refuses djb2 position histories, whose collisions could fake a repetition", () => {
+    const state = createInitialState(createRules({ repetitionLimit: 3 }));
+    const input = { state, actionsA: shuffle(Direction.North), actionsB: [], positionHistory: [hashPosition(state)] };
+
+    expect(() => resolveTurn(input)).toThrow(RangeError);
+  });
+
+  it("does nothing when the rule is off", () => {
+    const { result } = play(createInitialState(), 10);
+    expect(result.state.phase).toBe(GamePhase.Playing);
+  });
+
+  it("rejects a limit of 1", () => {
+    expect(() => createRules({ repetitionLimit: 1 })).toThrow(RangeError);
+  });
+});
+
 describe("EventType constants", () => {
   it("uses consistent event types", () => {
     const state = createInitialState();
@@ -678,3 +931,666 @@ describe("Diagonal pulse (v1.1)", () => {
   });
 });
 
+
+describe("GameRules", () => {
+  const allShields = (player: "A" | "B", count = 3): Action[] =>
+    Array.from({ length: count }, (_, i) => ({
+      type: ActionType.Shield,
+      quantarId: `${player}${i + 1}`,
+    }));
+
+  it("default rules reproduce the legacy constants", () => {
+    expect(DEFAULT_RULES.boardWidth).toBe(BOARD_SIZE);
+    expect(DEFAULT_RULES.boardHeight).toBe(BOARD_SIZE);
+    expect(DEFAULT_RULES.coreHp).toBe(CORE_HP);
+    expect(DEFAULT_RULES.quantarHp).toBe(QUANTAR_HP);
+    expect(DEFAULT_RULES.maxTurns).toBe(MAX_TURNS);
+  });
+
+  it("default rules do not change the state hash", () => {
+    const state = createInitialState();
+    const { rules: _rules, ...legacyState } = state;
+
+    expect(state.rules).toBe(DEFAULT_RULES);
+    expect(hashState(state)).toBe(hashState(legacyState));
+  });
+
+  it("creates the initial state from custom rules", () => {
+    const rules = createRules({ quantarHp: 3, coreHp: 8 });
+    const state = createInitialState(rules);
+
+    expect(state.rules).toBe(rules);
+    expect(state.cores.A.hp).toBe(8);
+    for (const quantar of state.quantars) {
+      expect(quantar.hp).toBe(3);
+    }
+  });
+
+  it("lays out a smaller board around its centre", () => {
+    const state = createInitialState(createRules({ boardWidth: 7, boardHeight: 7 }));
+
+    expect(state.cores.A.position).toEqual({ x: 3, y: 6 });
+    expect(state.cores.B.position).toEqual({ x: 3, y: 0 });
+    expect(getQuantar(state, "A1")!.position).toEqual({ x: 2, y: 4 });
+    expect(getQuantar(state, "B3")!.position).toEqual({ x: 4, y: 2 });
+  });
+
+  it("supports non-square boards", () => {
+    const rules = createRules({ boardWidth: 11, boardHeight: 9 });
+    const state = createInitialState(rules);
+
+    expect(state.cores.A.position).toEqual({ x: 5, y: 8 });
+    expect(getQuantar(state, "A1")!.position).toEqual({ x: 4, y: 6 });
+    expect(isInBounds({ x: 10, y: 8 }, rules)).toBe(true);
+    expect(isInBounds({ x: 10, y: 9 }, rules)).toBe(false);
+    expect(isInBounds({ x: 10, y: 8 }, DEFAULT_RULES)).toBe(false);
+  });
+
+  it("traces pulses to the edge of a wide board", () => {
+    const base = createInitialState(createRules({ boardWidth: 11, boardHeight: 9 }));
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) =>
+        q.id === "B3" ? { ...q, position: { x: 10, y: 6 } } : q
+      ),
+    };
+    const actionsA: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Pulse, quantarId: "A3", direction: Direction.East },
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB: allShields("B") });
+
+    const hit = result.log.events.find((e) => e.type === EventType.PulseHit);
+    expect(hit).toMatchObject({ targetId: "B3" });
+  });
+
+  it("includes board dimensions in the hash", () => {
+    const square = createInitialState(createRules({ boardWidth: 9, boardHeight: 9 }));
+    const wide = { ...square, rules: createRules({ boardWidth: 11, boardHeight: 9 }) };
+
+    expect(statesEqual(square, createInitialState())).toBe(true);
+    expect(statesEqual(square, wide)).toBe(false);
+  });
+
+  it("includes non-default rules in the hash", () => {
+    const standard = createInitialState();
+    const custom = createInitialState(createRules({ maxTurns: 80 }));
+
+    expect(statesEqual(standard, custom)).toBe(false);
+  });
+
+  it("never starts two pieces on the same cell", () => {
+    for (let boardHeight = 4; boardHeight <= 12; boardHeight++) {
+      for (let boardWidth = 3; boardWidth <= 12; boardWidth++) {
+        for (let quantarsPerPlayer = 1; quantarsPerPlayer <= boardWidth; quantarsPerPlayer++) {
+          const rules = createRules({ boardWidth, boardHeight, quantarsPerPlayer });
+          const state = createInitialState(rules);
+          const positions = [state.cores.A, state.cores.B, ...state.quantars].map((e) => e.position);
+
+          expect(new Set(positions.map((p) => `${p.x},${p.y}`)).size).toBe(positions.length);
+          expect(positions.every((p) => isInBounds(p, rules))).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("rejects invalid rules", () => {
+    expect(() => createRules({ quantarHp: 0 })).toThrow(RangeError);
+    expect(() => createInitialState({ ...DEFAULT_RULES, boardHeight: 2 })).toThrow(RangeError);
+    expect(() => createRules({ boardHeight: 3 })).toThrow(RangeError);
+    expect(() => createRules({ boardWidth: 5, quantarsPerPlayer: 6 })).toThrow(RangeError);
+  });
+
+  it("resolves turns with the state's rules", () => {
+    const state = createInitialState(createRules({ pulseDamage: 2, shieldReduction: 0 }));
+    const actionsA: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB: allShields("B") });
+
+    // Shield reduces nothing, so B2 takes the full 2 damage and is destroyed
+    expect(getQuantar(result.state, "B2")).toBeUndefined();
+    expect(result.state.rules).toBe(state.rules);
+  });
+
+  it("ends the game at the ruleset's turn limit", () => {
+    const state: GameState = { ...createInitialState(createRules({ maxTurns: 80 })), turn: 49 };
+
+    const early = resolveTurn({ state, actionsA: allShields("A"), actionsB: allShields("B") });
+    expect(early.state.phase).toBe(GamePhase.Playing);
+
+    const late = resolveTurn({
+      state: { ...state, turn: 79 },
+      actionsA: allShields("A"),
+      actionsB: allShields("B"),
+    });
+    expect(late.state.phase).toBe(GamePhase.Ended);
+  });
+
+  it("validates bounds against the ruleset's board", () => {
+    const rules = createRules({ boardWidth: 5, boardHeight: 5, quantarsPerPlayer: 5 });
+    const state = createInitialState(rules);
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.West },
+      ...allShields("A", 5).slice(1),
+    ];
+
+    const result = validatePlayerActions(state, actions, Player.A);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("MOVE_OUT_OF_BOUNDS");
+    }
+  });
+});
+
+describe("Terrain", () => {
+  const shields = (ids: string[]): Action[] =>
+    ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+  const withTerrain = (terrain: GameState["terrain"]): GameState => ({
+    ...createInitialState(),
+    terrain,
+  });
+
+  it("walls block movement", () => {
+    const state = withTerrain([{ position: { x: 3, y: 5 }, type: TerrainType.Wall }]);
+    const actionsA: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      ...shields(["A2", "A3"]),
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB: shields(["B1", "B2", "B3"]) });
+
+    expect(getQuantar(result.state, "A1")!.position).toEqual({ x: 3, y: 6 });
+    const blocked = result.log.events.find((e) => e.type === EventType.MoveBlocked);
+    expect(blocked).toMatchObject({ quantarId: "A1", reason: "blocked by wall" });
+  });
+
+  it("pits block movement but not pulses", () => {
+    const state = withTerrain([{ position: { x: 4, y: 4 }, type: TerrainType.Pit }]);
+    const actionsA: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+    const actionsB: Action[] = [
+      { type: ActionType.Shield, quantarId: "B1" },
+      { type: ActionType.Move, quantarId: "B2", direction: Direction.South },
+      { type: ActionType.Shield, quantarId: "B3" },
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB });
+
+    expect(getQuantar(result.state, "B2")!.hp).toBe(QUANTAR_HP - 1);
+    expect(result.log.events.some((e) => e.type === EventType.TerrainHit)).toBe(false);
+  });
+
+  it("pillars stop pulses with a terrain hit", () => {
+    const state = withTerrain([{ position: { x: 4, y: 4 }, type: TerrainType.Pillar }]);
+    const actionsA: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB: shields(["B1", "B2", "B3"]) });
+
+    const terrainHit = result.log.events.find((e) => e.type === EventType.TerrainHit);
+    expect(terrainHit).toEqual({
+      type: EventType.TerrainHit,
+      quantarId: "A2",
+      position: { x: 4, y: 4 },
+      terrain: TerrainType.Pillar,
+    });
+    expect(result.log.events.some((e) => e.type === EventType.PulseHit)).toBe(false);
+    expect(result.state.terrain).toEqual(state.terrain);
+  });
+
+  it("pillars do not protect a quantar standing on them", () => {
+    const base = withTerrain([{ position: { x: 4, y: 2 }, type: TerrainType.Pillar }]);
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A3" ? { ...q, position: { x: 5, y: 3 } } : q)),
+    };
+    const actionsA: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.NorthWest },
+    ];
+    const actionsB: Action[] = [
+      { type: ActionType.Shield, quantarId: "B1" },
+      { type: ActionType.Pulse, quantarId: "B2", direction: Direction.South },
+      { type: ActionType.Shield, quantarId: "B3" },
+    ];
+
+    const result = resolveTurn({ state, actionsA, actionsB });
+
+    // B2 fires from the pillar, and is hit by A2's beam and A3's diagonal pulse
+    expect(getQuantar(result.state, "A2")!.hp).toBe(QUANTAR_HP - 1);
+    expect(getQuantar(result.state, "B2")).toBeUndefined();
+    expect(result.log.events.some((e) => e.type === EventType.TerrainHit)).toBe(false);
+  });
+
+  it("includes terrain in the state hash", () => {
+    const open = createInitialState();
+    const walled = withTerrain([{ position: { x: 0, y: 4 }, type: TerrainType.Wall }]);
+
+    expect(statesEqual(open, withTerrain([]))).toBe(true);
+    expect(statesEqual(open, walled)).toBe(false);
+    expect(getTerrainAt(walled, { x: 0, y: 4 })?.type).toBe(TerrainType.Wall);
+    expect(getTerrainAt(walled, { x: 1, y: 4 })).toBeNull();
+  });
+});
+
+describe("Legal action generation", () => {
+  it("lists every legal action for a quantar", () => {
+    const state = createInitialState();
+    const actions = getLegalActions(state, "A1");
+
+    // 4 moves + 8 pulses + shield, all in bounds from (3,6)
+    expect(actions).toHaveLength(13);
+    expect(actions[0]).toEqual({ type: ActionType.Move, quantarId: "A1", direction: Direction.North });
+    expect(actions[12]).toEqual({ type: ActionType.Shield, quantarId: "A1" });
+  });
+
+  it("omits moves off the board", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A1" ? { ...q, position: { x: 0, y: 6 } } : q)),
+    };
+
+    const moves = getLegalActions(state, "A1").filter((a) => a.type === ActionType.Move);
+    expect(moves.map((a) => (a as { direction: string }).direction)).toEqual(["N", "E", "S"]);
+  });
+
+  it("optionally prunes moves that are always blocked", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A2" ? { ...q, position: { x: 4, y: 7 } } : q)),
+      terrain: [{ position: { x: 3, y: 7 }, type: TerrainType.Wall }],
+    };
+
+    expect(getLegalActions(state, "A2")).toHaveLength(13);
+    const pruned = getLegalActions(state, "A2", { pruneBlockedMoves: true });
+    expect(pruned).toHaveLength(11); // No move S into the Core or W into the wall
+  });
+
+  it("returns nothing for unknown quantars or ended games", () => {
+    const state = createInitialState();
+
+    expect(getLegalActions(state, "Z9")).toEqual([]);
+    expect(getLegalActions({ ...state, phase: GamePhase.Ended }, "A1")).toEqual([]);
+    expect(enumerateLegalTurns({ ...state, phase: GamePhase.Ended }, Player.A)).toEqual([]);
+  });
+
+  it("enumerates exactly the turns validatePlayerActions accepts", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      quantars: base.quantars.map((q) => (q.id === "A1" ? { ...q, position: { x: 0, y: 8 } } : q)),
+    };
+
+    const turns = enumerateLegalTurns(state, Player.A);
+
+    // A1 in the corner has 2 moves, A2 and A3 have 4
+    expect(turns).toHaveLength(11 * 13 * 13);
+    for (const turn of turns) {
+      expect(validatePlayerActions(state, turn, Player.A).valid).toBe(true);
+    }
+
+    const offBoard: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.West },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+    expect(validatePlayerActions(state, offBoard, Player.A).valid).toBe(false);
+    expect(turns.some((t) => JSON.stringify(t) === JSON.stringify(offBoard))).toBe(false);
+  });
+});
+
+describe("lintPlayerActions", () => {
+  const place = (positions: Record<string, { x: number; y: number }>): GameState => {
+    const base = createInitialState();
+    return {
+      ...base,
+      quantars: base.quantars.map((q) => (positions[q.id] ? { ...q, position: positions[q.id]! } : q)),
+    };
+  };
+
+  it("returns no warnings for a sensible turn", () => {
+    const state = createInitialState();
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+
+    expect(lintPlayerActions(state, actions, Player.A)).toEqual([]);
+  });
+
+  it("warns about moves into Cores and terrain", () => {
+    const state: GameState = {
+      ...place({ A2: { x: 4, y: 7 } }),
+      terrain: [{ position: { x: 3, y: 5 }, type: TerrainType.Pit }],
+    };
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Move, quantarId: "A2", direction: Direction.South },
+      { type: ActionType.Pulse, quantarId: "A3", direction: Direction.North },
+    ];
+
+    const warnings = lintPlayerActions(state, actions, Player.A);
+    expect(warnings.map((w) => [w.code, w.quantarId, w.actionIndex])).toEqual([
+      ["MOVE_INTO_TERRAIN", "A1", 0],
+      ["MOVE_INTO_CORE", "A2", 1],
+    ]);
+  });
+
+  it("warns about pulses that cannot hit an enemy", () => {
+    const state = place({ A1: { x: 0, y: 6 }, A2: { x: 2, y: 6 } });
+    const actions: Action[] = [
+      { type: ActionType.Pulse, quantarId: "A1", direction: PulseDirection.West },
+      { type: ActionType.Pulse, quantarId: "A2", direction: PulseDirection.SouthEast },
+      { type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.West },
+    ];
+
+    const warnings = lintPlayerActions(state, actions, Player.A);
+    expect(warnings.map((w) => w.code)).toEqual([
+      "PULSE_TOWARD_EDGE",
+      "PULSE_NO_TARGET",
+      "FRIENDLY_FIRE_RISK",
+    ]);
+  });
+
+  it("warns about pulses down an empty lane to the edge", () => {
+    const state = createInitialState();
+    const actions: Action[] = [
+      { type: ActionType.Pulse, quantarId: "A1", direction: PulseDirection.North },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.East },
+    ];
+
+    // Nothing is in row 6 east of A3, and no enemy can step into it this turn
+    const warnings = lintPlayerActions(state, actions, Player.A);
+    expect(warnings.map((w) => [w.code, w.quantarId])).toEqual([["PULSE_TOWARD_EDGE", "A3"]]);
+
+    // From (7,5), B3 can step into A3's row
+    const nearby = {
+      ...state,
+      quantars: state.quantars.map((q) => (q.id === "B3" ? { ...q, position: { x: 7, y: 5 } } : q)),
+    };
+    expect(lintPlayerActions(nearby, actions, Player.A)).toEqual([]);
+  });
+
+  it("lints against the rules passed in", () => {
+    const rules = createRules({ boardWidth: 11 });
+    const { rules: _rules, ...legacy } = createInitialState(rules);
+    const state: GameState = {
+      ...legacy,
+      quantars: legacy.quantars.map((q) => (q.id === "B3" ? { ...q, position: { x: 10, y: 6 } } : q)),
+    };
+    const actions: Action[] = [{ type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.East }];
+
+    // Without the rules, the state is read as a 9x9 board and B3 is off the edge
+    expect(lintPlayerActions(state, actions, Player.A).map((w) => w.code)).toEqual(["PULSE_TOWARD_EDGE"]);
+    expect(lintPlayerActions(state, actions, Player.A, rules)).toEqual([]);
+    expect(lintPlayerActions({ ...state, rules }, actions, Player.A)).toEqual([]);
+  });
+
+  it("warns about shields no enemy can reach", () => {
+    const state = place({ A1: { x: 0, y: 8 } });
+    const actions: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+
+    const warnings = lintPlayerActions(state, actions, Player.A);
+    expect(warnings.map((w) => [w.code, w.quantarId])).toEqual([["SHIELD_UNREACHABLE", "A1"]]);
+  });
+
+  it("treats pulse-blocking terrain as cover for shields", () => {
+    const state: GameState = {
+      ...place({ A1: { x: 0, y: 8 }, B1: { x: 0, y: 2 } }),
+      terrain: [{ position: { x: 0, y: 6 }, type: TerrainType.Wall }],
+    };
+    const actions: Action[] = [{ type: ActionType.Shield, quantarId: "A1" }];
+
+    // B1 could fire down column 0, but the wall stops the beam
+    expect(lintPlayerActions(state, actions, Player.A).map((w) => w.code)).toEqual([
+      "SHIELD_UNREACHABLE",
+    ]);
+    expect(lintPlayerActions({ ...state, terrain: [] }, actions, Player.A)).toEqual([]);
+  });
+
+  it("does not treat a pillar as cover for the quantar standing on it", () => {
+    const state: GameState = {
+      ...place({ A1: { x: 0, y: 6 }, B1: { x: 0, y: 2 } }),
+      terrain: [{ position: { x: 0, y: 6 }, type: TerrainType.Pillar }],
+    };
+    const actions: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: PulseDirection.West },
+    ];
+
+    // B1's beam hits A1 on the pillar, and so does A2's (friendly fire)
+    expect(lintPlayerActions(state, actions, Player.A).map((w) => w.code)).toEqual(["FRIENDLY_FIRE_RISK"]);
+  });
+
+  it("accounts for the player's own moves and pulses", () => {
+    // A3's pulse down row 8 can hit A1, so A1's shield is not wasted
+    const shielded = place({ A1: { x: 0, y: 8 }, A3: { x: 3, y: 8 } });
+    const shieldActions: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.West },
+    ];
+    expect(lintPlayerActions(shielded, shieldActions, Player.A).map((w) => [w.code, w.quantarId])).toEqual([
+      ["FRIENDLY_FIRE_RISK", "A3"],
+    ]);
+
+    // A1 steps into A3's otherwise empty lane; A3 steps into A2's diagonal
+    const state = place({ A1: { x: 7, y: 7 } });
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Shield, quantarId: "A2" },
+      { type: ActionType.Pulse, quantarId: "A3", direction: PulseDirection.East },
+    ];
+    expect(lintPlayerActions(state, actions, Player.A).map((w) => [w.code, w.quantarId])).toEqual([
+      ["FRIENDLY_FIRE_RISK", "A3"],
+    ]);
+    const stepping: Action[] = [
+      { type: ActionType.Shield, quantarId: "A1" },
+      { type: ActionType.Pulse, quantarId: "A2", direction: PulseDirection.NorthEast },
+      { type: ActionType.Move, quantarId: "A3", direction: Direction.North },
+    ];
+    expect(lintPlayerActions(createInitialState(), stepping, Player.A).map((w) => w.warning)).toEqual([
+      "Pulse by A2 is aimed where A3 is moving",
+    ]);
+  });
+
+  it("skips invalid actions", () => {
+    const state = createInitialState();
+    const actions: Action[] = [{ type: ActionType.Move, quantarId: "B2", direction: Direction.North }];
+
+    expect(lintPlayerActions(state, actions, Player.A)).toEqual([]);
+  });
+});
+
+describe("Move collision cascades", () => {
+  const arrange = (quantars: Array<[string, number, number]>): GameState => ({
+    ...createInitialState(),
+    quantars: quantars.map(([id, x, y]) => ({
+      id,
+      owner: id.startsWith("A") ? Player.A : Player.B,
+      position: { x, y },
+      hp: QUANTAR_HP,
+    })),
+  });
+  const move = (quantarId: string, direction: Direction): Action => ({
+    type: ActionType.Move,
+    quantarId,
+    direction,
+  });
+  const shield = (quantarId: string): Action => ({ type: ActionType.Shield, quantarId });
+
+  const expectNoOverlap = (state: GameState) => {
+    const cells = state.quantars.map((q) => `${q.position.x},${q.position.y}`);
+    expect(new Set(cells).size).toBe(cells.length);
+  };
+  const blockReason = (events: readonly TurnEvent[], quantarId: string) => {
+    const event = events.find((e) => e.type === EventType.MoveBlocked && e.quantarId === quantarId);
+    return event && event.type === EventType.MoveBlocked ? event.reason : undefined;
+  };
+
+  it("moves a whole chain into an empty cell", () => {
+    const state = arrange([["A1", 3, 6], ["A2", 3, 5], ["A3", 3, 4], ["B1", 8, 0]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.North), move("A2", Direction.North), move("A3", Direction.North)],
+      actionsB: [shield("B1")],
+    });
+
+    expect(getQuantar(result.state, "A1")!.position).toEqual({ x: 3, y: 5 });
+    expect(getQuantar(result.state, "A2")!.position).toEqual({ x: 3, y: 4 });
+    expect(getQuantar(result.state, "A3")!.position).toEqual({ x: 3, y: 3 });
+  });
+
+  it("blocks the move behind a quantar stopped by a Core", () => {
+    const state = arrange([["A1", 4, 6], ["A2", 4, 7], ["B1", 8, 0]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.South), move("A2", Direction.South)],
+      actionsB: [shield("B1")],
+    });
+
+    expectNoOverlap(result.state);
+    expect(blockReason(result.log.events, "A2")).toBe("blocked by Core");
+    expect(blockReason(result.log.events, "A1")).toBe("blocked by stationary Quantar");
+  });
+
+  it("blocks the move behind a head-on collision", () => {
+    const state = arrange([["A1", 3, 6], ["A2", 3, 5], ["B1", 5, 5]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.North), move("A2", Direction.East)],
+      actionsB: [move("B1", Direction.West)],
+    });
+
+    expectNoOverlap(result.state);
+    expect(blockReason(result.log.events, "A2")).toBe("collision with another Quantar");
+    expect(blockReason(result.log.events, "B1")).toBe("collision with another Quantar");
+    expect(blockReason(result.log.events, "A1")).toBe("blocked by stationary Quantar");
+  });
+
+  it("cascades blocks along a chain", () => {
+    const state = arrange([["A1", 3, 7], ["A2", 3, 6], ["A3", 3, 5], ["B1", 3, 4]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.North), move("A2", Direction.North), move("A3", Direction.North)],
+      actionsB: [shield("B1")],
+    });
+
+    expectNoOverlap(result.state);
+    expect(result.log.events.filter((e) => e.type === EventType.MoveBlocked)).toHaveLength(3);
+    expect(getQuantar(result.state, "A1")!.position).toEqual({ x: 3, y: 7 });
+  });
+
+  it("reports a head-on collision on the cell behind a swap", () => {
+    const state = arrange([["A1", 3, 7], ["A2", 3, 6], ["B1", 3, 5]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.North), move("A2", Direction.North)],
+      actionsB: [move("B1", Direction.South)],
+    });
+
+    expectNoOverlap(result.state);
+    expect(blockReason(result.log.events, "A2")).toBe("swap collision");
+    expect(blockReason(result.log.events, "B1")).toBe("collision with another Quantar");
+    expect(blockReason(result.log.events, "A1")).toBe("collision with another Quantar");
+  });
+
+  it("blocks every member of a rotation cycle", () => {
+    const state = arrange([["A1", 0, 0], ["A2", 1, 0], ["A3", 1, 1], ["B1", 0, 1], ["B2", 8, 8]]);
+    const result = resolveTurn({
+      state,
+      actionsA: [move("A1", Direction.East), move("A2", Direction.South), move("A3", Direction.West)],
+      actionsB: [move("B1", Direction.North), shield("B2")],
+    });
+
+    for (const id of ["A1", "A2", "A3", "B1"]) {
+      expect(blockReason(result.log.events, id)).toBe("rotation cycle");
+    }
+    expect(result.state.quantars.map((q) => q.position)).toEqual(state.quantars.map((q) => q.position));
+  });
+});
+
+describe("Damage attribution", () => {
+  const state: GameState = {
+    ...createInitialState(),
+    quantars: [
+      { id: "A1", owner: "A", position: { x: 2, y: 6 }, hp: 2 },
+      { id: "A2", owner: "A", position: { x: 6, y: 4 }, hp: 2 },
+      { id: "A3", owner: "A", position: { x: 0, y: 8 }, hp: 2 },
+      { id: "B1", owner: "B", position: { x: 2, y: 4 }, hp: 2 },
+      { id: "B2", owner: "B", position: { x: 8, y: 0 }, hp: 2 },
+    ],
+  };
+  const pulse = (quantarId: string, direction: PulseDirection): Action => ({
+    type: ActionType.Pulse,
+    quantarId,
+    direction,
+  });
+  const shield = (quantarId: string): Action => ({ type: ActionType.Shield, quantarId });
+
+  it("names the shooter and hit position on PULSE_HIT", () => {
+    const result = resolveTurn({
+      state,
+      actionsA: [pulse("A1", Direction.North), shield("A2"), shield("A3")],
+      actionsB: [shield("B1"), shield("B2")],
+    });
+
+    const hit = result.log.events.find((e) => e.type === EventType.PulseHit);
+    expect(hit).toMatchObject({ sourceQuantarId: "A1", targetId: "B1", position: { x: 2, y: 4 }, damage: 1 });
+  });
+
+  it("breaks down raw damage, shield absorption and sources", () => {
+    const result = resolveTurn({
+      state,
+      actionsA: [pulse("A1", Direction.North), pulse("A2", Direction.West), shield("A3")],
+      actionsB: [shield("B1"), shield("B2")],
+    });
+
+    const damage = result.log.events.find((e) => e.type === EventType.DamageApplied && e.targetId === "B1");
+    expect(damage).toEqual({
+      type: EventType.DamageApplied,
+      targetId: "B1",
+      damage: 1,
+      rawDamage: 2,
+      shieldAbsorbed: 1,
+      sources: [
+        { quantarId: "A1", damage: 1 },
+        { quantarId: "A2", damage: 1 },
+      ],
+      remainingHp: 1,
+    });
+  });
+
+  it("reports no absorption on Cores", () => {
+    const result = resolveTurn({
+      state,
+      actionsA: [shield("A1"), shield("A2"), shield("A3")],
+      actionsB: [shield("B1"), pulse("B2", Direction.West)],
+    });
+
+    const damage = result.log.events.find((e) => e.type === EventType.DamageApplied);
+    expect(damage).toMatchObject({ targetId: "core_B", rawDamage: 1, shieldAbsorbed: 0, sources: [{ quantarId: "B2", damage: 1 }] });
+  });
+});
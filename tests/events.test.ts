@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  createRules,
+  resolveTurn,
+  applyTurnLog,
+  checkTurnLogConsistency,
+  getLegalActions,
+  getPlayerQuantars,
+  insertPhaseAfter,
+  statesEqual,
+  DEFAULT_PIPELINE,
+  PhaseName,
+  ActionType,
+  Direction,
+  EventType,
+  GamePhase,
+  Player,
+  TiebreakPolicy,
+  type Action,
+  type GameState,
+  type PlayerId,
+  type TurnLog,
+} from "../src/index.js";
+
+/** Deterministic PRNG (mulberry32) so failures reproduce */
+function rng(seed: number): () => number {
+  let t = seed;
+  return () => {
+    t = (t + 0x6d2b79f5) | 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomTurn(state: GameState, player: PlayerId, random: () => number): Action[] {
+  return getPlayerQuantars(state, player).map((q) => {
+    const legal = getLegalActions(state, q.id);
+    return legal[Math.floor(random() * legal.length)]!;
+  });
+}
+
+const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+describe("applyTurnLog", () => {
+  it("rebuilds every turn of random games", () => {
+    const rulesets = [
+      createRules({ maxTurns: 30 }),
+      createRules({ maxTurns: 12, tiebreak: TiebreakPolicy.SuddenDeath }),
+      createRules({ boardWidth: 7, boardHeight: 7, coreHp: 3, tiebreak: TiebreakPolicy.QuantarHp, maxTurns: 20 }),
+    ];
+    for (const [seed, rules] of rulesets.entries()) {
+      const random = rng(seed + 1);
+      for (let game = 0; game < 10; game++) {
+        let state = createInitialState(rules);
+        while (state.phase === GamePhase.Playing) {
+          const input = {
+            state,
+            actionsA: randomTurn(state, Player.A, random),
+            actionsB: randomTurn(state, Player.B, random),
+          };
+          const result = checkTurnLogConsistency(input);
+          expect(result).toMatchObject({ valid: true });
+          state = resolveTurn(input).state;
+        }
+      }
+    }
+  });
+
+  it("rebuilds destruction and the end of the game", () => {
+    const initial = createInitialState();
+    const state: GameState = {
+      ...initial,
+      cores: { ...initial.cores, B: { ...initial.cores.B, hp: 1 } },
+      quantars: [
+        { id: "A1", owner: "A", position: { x: 4, y: 3 }, hp: 2 },
+        { id: "A2", owner: "A", position: { x: 2, y: 0 }, hp: 2 },
+        { id: "B1", owner: "B", position: { x: 4, y: 2 }, hp: 1 },
+        { id: "B2", owner: "B", position: { x: 7, y: 7 }, hp: 2 },
+      ],
+    };
+    const actionsA: Action[] = [
+      { type: ActionType.Pulse, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.East },
+    ];
+    const actionsB: Action[] = [
+      { type: ActionType.Pulse, quantarId: "B1", direction: Direction.South },
+      ...shields(["B2"]),
+    ];
+    const { state: expected, log } = resolveTurn({ state, actionsA, actionsB });
+    const rebuilt = applyTurnLog(state, log);
+
+    expect(log.events.filter((e) => e.type === EventType.EntityDestroyed)).toHaveLength(2);
+    expect(expected.winner).toBe(Player.A);
+    expect(rebuilt.valid && statesEqual(rebuilt.state, expected)).toBe(true);
+  });
+
+  it("rejects a log for another turn or a finished game", () => {
+    const state = createInitialState();
+    const log: TurnLog = { turn: 2, events: [] };
+
+    expect(applyTurnLog(state, log)).toMatchObject({ valid: false, eventIndex: null });
+    expect(applyTurnLog({ ...state, phase: GamePhase.Ended }, { turn: 1, events: [] })).toMatchObject({
+      valid: false,
+      error: "Game has already ended",
+    });
+  });
+
+  it("reports the first event that does not fit the board", () => {
+    const state = createInitialState();
+    const move: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      ...shields(["A2", "A3"]),
+    ];
+    const { log } = resolveTurn({ state, actionsA: move, actionsB: shields(["B1", "B2", "B3"]) });
+    const moveIndex = log.events.findIndex((e) => e.type === EventType.Move);
+
+    // Applied twice, the second move starts from the wrong cell
+    const doubled = { ...log, events: [...log.events, log.events[moveIndex]!] };
+    expect(applyTurnLog(state, doubled)).toEqual({
+      valid: false,
+      error: "Quantar A1 moves from (3,6) but is at (3,5)",
+      eventIndex: log.events.length,
+    });
+
+    const damage = {
+      type: EventType.DamageApplied,
+      targetId: "B1",
+      damage: 1,
+      rawDamage: 1,
+      shieldAbsorbed: 0,
+      sources: [],
+      remainingHp: 0,
+    } as const;
+    expect(applyTurnLog(state, { turn: 1, events: [damage] })).toMatchObject({ valid: false, eventIndex: 0 });
+    const destroyed = { type: EventType.EntityDestroyed, entityId: "B1", entityType: "quantar" } as const;
+    expect(applyTurnLog(state, { turn: 1, events: [destroyed] })).toEqual({
+      valid: false,
+      error: "B1 destroyed with 2 HP left",
+      eventIndex: 0,
+    });
+  });
+});
+
+describe("checkTurnLogConsistency", () => {
+  it("catches a custom phase that changes the board without logging it", () => {
+    const pipeline = insertPhaseAfter(DEFAULT_PIPELINE, PhaseName.Damage, {
+      name: "heal",
+      run: (ctx) => {
+        ctx.cores.A.hp += 1;
+      },
+    });
+    const input = {
+      state: createInitialState(),
+      actionsA: shields(["A1", "A2", "A3"]),
+      actionsB: shields(["B1", "B2", "B3"]),
+    };
+
+    const result = checkTurnLogConsistency(input, { pipeline });
+    expect(result).toMatchObject({ valid: false, error: "State rebuilt from the log differs from resolveTurn's" });
+    expect(!result.valid && result.expected).toContain("C:A:4,8:6");
+    expect(!result.valid && result.actual).toContain("C:A:4,8:5");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import vectors from "./golden-vectors.json";
+import {
+  createInitialState,
+  hashState,
+  hashActions,
+  canonicalizeState,
+  canonicalizeActions,
+  compareCodePoints,
+  CANONICAL_FORMAT_VERSION,
+  hashTurn,
+  sha256,
+  HashAlgorithm,
+  ActionType,
+  type Action,
+  type GameState,
+} from "../src/index.js";
+
+describe("sha256", () => {
+  it("matches the FIPS 180-4 test vectors", () => {
+    expect(sha256("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(sha256("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    );
+  });
+
+  it("handles multi-block input", () => {
+    expect(sha256("a".repeat(1000))).toBe("41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3");
+  });
+
+  it("hashes the UTF-8 encoding", () => {
+    expect(sha256("é")).toBe("4a99557e4033c3539de2eb65472017cad5f9557f7a0625a09f1c3f6e2ba69c4c");
+    expect(sha256("⚛😀")).toBe("0056a31f4e7b313d09ce445a27f201074ec2ac820bae89185072cb0c76af1292");
+  });
+});
+
+describe("Hash algorithms", () => {
+  const state = createInitialState();
+  const actions: Action[] = [{ type: ActionType.Shield, quantarId: "A1" }];
+
+  it("keeps djb2 as the unprefixed default", () => {
+    expect(hashState(state)).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashState(state, HashAlgorithm.Djb2)).toBe(hashState(state));
+  });
+
+  it("prefixes SHA-256 hashes with the algorithm", () => {
+    expect(hashState(state, HashAlgorithm.Sha256)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(hashActions(actions, HashAlgorithm.Sha256)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(hashTurn(state, actions, [], HashAlgorithm.Sha256)).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it("distinguishes states that differ slightly", () => {
+    const moved = { ...state, turn: 2 };
+    expect(hashState(moved, HashAlgorithm.Sha256)).not.toBe(hashState(state, HashAlgorithm.Sha256));
+  });
+});
+
+describe("Canonical ordering", () => {
+  it("compares strings by code point, independent of locale", () => {
+    const ids = ["😀", "\uFFFD", "é", "b", "B", "a10", "a9"];
+    expect([...ids].sort(compareCodePoints)).toEqual(["B", "a10", "a9", "b", "é", "\uFFFD", "😀"]);
+    expect(compareCodePoints("A1", "A1")).toBe(0);
+    expect(compareCodePoints("A", "A1")).toBeLessThan(0);
+  });
+});
+
+/**
+ * Golden vectors (tests/golden-vectors.json): state -> canonical string ->
+ * hash. Ports of the engine to other languages should reproduce all of them.
+ */
+describe("Golden vectors", () => {
+  it("are for the current canonical format", () => {
+    expect(vectors.formatVersion).toBe(CANONICAL_FORMAT_VERSION);
+  });
+
+  for (const vector of vectors.states) {
+    it(`state: ${vector.name}`, () => {
+      const state = vector.state as GameState;
+      expect(canonicalizeState(state)).toBe(vector.canonical);
+      expect(hashState(state)).toBe(vector.djb2);
+      expect(hashState(state, HashAlgorithm.Sha256)).toBe(vector.sha256);
+    });
+  }
+
+  for (const vector of vectors.actions) {
+    it(`actions: ${vector.name}`, () => {
+      const actions = vector.actions as Action[];
+      expect(canonicalizeActions(actions)).toBe(vector.canonical);
+      expect(hashActions(actions)).toBe(vector.djb2);
+      expect(hashActions(actions, HashAlgorithm.Sha256)).toBe(vector.sha256);
+    });
+  }
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatActionNotation,
+  parseActionNotation,
+  formatQgn,
+  parseQgn,
+  replayToQgn,
+  canonicalizeActions,
+  createInitialState,
+  createRules,
+  GameRecorder,
+  ActionType,
+  Direction,
+  PulseDirection,
+  type Action,
+  type QgnGame,
+} from "../src/index.js";
+
+const actions: Action[] = [
+  { type: ActionType.Shield, quantarId: "A3" },
+  { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+  { type: ActionType.Pulse, quantarId: "A2", direction: PulseDirection.NorthEast },
+];
+
+describe("QGN actions", () => {
+  it("writes actions in quantar id order", () => {
+    expect(formatActionNotation(actions)).toBe("A1:M:N A2:P:NE A3:S");
+    expect(formatActionNotation([])).toBe("-");
+  });
+
+  it("round-trips with canonicalizeActions", () => {
+    const parsed = parseActionNotation(formatActionNotation(actions));
+
+    expect(parsed.valid).toBe(true);
+    expect(parsed.valid && canonicalizeActions(parsed.value)).toBe(canonicalizeActions(actions));
+    expect(parseActionNotation("-")).toEqual({ valid: true, value: [] });
+  });
+
+  it("reports every bad token with its column", () => {
+    const result = parseActionNotation("A1:M:NE A2:X  A3:S:N A4");
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { line: 1, column: 6, message: "expected move direction N|E|S|W" },
+        { line: 1, column: 12, message: 'expected action type M, P or S, got "X"' },
+        { line: 1, column: 19, message: "shield takes no direction" },
+        { line: 1, column: 22, message: 'expected <quantarId>:<M|P|S>[:<direction>], got "A4"' },
+      ],
+    });
+  });
+
+  it("refuses quantar ids it cannot write", () => {
+    expect(() => formatActionNotation([{ type: ActionType.Shield, quantarId: "A 1" }])).toThrow(RangeError);
+    expect(() => formatActionNotation([{ type: ActionType.Shield, quantarId: "A:1" }])).toThrow(RangeError);
+  });
+});
+
+describe("QGN games", () => {
+  const game: QgnGame = {
+    headers: { PlayerA: "alice", PlayerB: 'bob "the builder"', Date: "2026.10.19", Result: "*" },
+    turns: [
+      { turn: 1, actionsA: actions, actionsB: [{ type: ActionType.Shield, quantarId: "B1" }] },
+      { turn: 2, actionsA: [], actionsB: [{ type: ActionType.Move, quantarId: "B1", direction: Direction.West }] },
+    ],
+  };
+
+  it("writes headers and numbered turns", () => {
+    expect(formatQgn(game)).toBe(
+      [
+        '[PlayerA "alice"]',
+        '[PlayerB "bob \\"the builder\\""]',
+        '[Date "2026.10.19"]',
+        '[Result "*"]',
+        "",
+        "1. A1:M:N A2:P:NE A3:S / B1:S",
+        "2. - / B1:M:W",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("round-trips", () => {
+    const parsed = parseQgn(formatQgn(game));
+
+    expect(parsed.valid).toBe(true);
+    expect(parsed.valid && formatQgn(parsed.value)).toBe(formatQgn(game));
+    expect(parsed.valid && parsed.value.headers).toEqual(game.headers);
+  });
+
+  it("skips comments and blank lines", () => {
+    const text = ['; exported from a bug report', '[Result "B"] ; B won', "", "  1. A1:S / B1:S ; opening", ""];
+
+    expect(parseQgn(text.join("\n"))).toMatchObject({
+      valid: true,
+      value: { headers: { Result: "B" }, turns: [{ turn: 1 }] },
+    });
+  });
+
+  it("accepts header keys named like Object.prototype members", () => {
+    const text = ['[constructor "x"]', '[toString "y"]', '[hasOwnProperty "z"]', '[toString "again"]'];
+
+    expect(parseQgn(text.join("\n"))).toEqual({
+      valid: false,
+      errors: [{ line: 4, column: 2, message: 'duplicate header "toString"' }],
+    });
+    expect(parseQgn(text.slice(0, 3).join("\n"))).toMatchObject({
+      valid: true,
+      value: { headers: { constructor: "x", toString: "y", hasOwnProperty: "z" } },
+    });
+  });
+
+  it("reports problems by line and column", () => {
+    const text = [
+      '[Result "maybe"]',
+      "[Date 2026]",
+      "1. A1:S / B1:S",
+      "3. A1:S B1:S",
+      '[PlayerA "late"]',
+      "4. A1:P:X / B1:S",
+      "5. / B1:S",
+    ];
+
+    expect(parseQgn(text.join("\n"))).toEqual({
+      valid: false,
+      errors: [
+        { line: 1, column: 10, message: "expected result A, B, draw, *" },
+        { line: 2, column: 1, message: 'expected header [Key "value"]' },
+        { line: 4, column: 1, message: "expected turn 2" },
+        { line: 4, column: 13, message: 'expected exactly one "/" between player A\'s and player B\'s actions' },
+        { line: 5, column: 1, message: "headers must come before the first turn" },
+        { line: 6, column: 9, message: "expected pulse direction N|E|S|W|NE|NW|SE|SW" },
+        { line: 7, column: 1, message: 'missing actions for player A (use "-" for none)' },
+      ],
+    });
+  });
+
+  it("describes a recorded game", () => {
+    const recorder = new GameRecorder(createInitialState(createRules({ maxTurns: 2 })));
+    const parsedA = parseActionNotation("A1:S A2:S A3:S");
+    const parsedB = parseActionNotation("B1:S B2:S B3:S");
+    if (!parsedA.valid || !parsedB.valid) throw new Error("unreachable");
+    recorder.playTurn(parsedA.value, parsedB.value);
+
+    const qgn = replayToQgn(recorder.toReplay(), { PlayerA: "alice" });
+    expect(qgn.headers).toEqual({ PlayerA: "alice", Result: "draw" });
+    expect(formatQgn(qgn)).toBe('[PlayerA "alice"]\n[Result "draw"]\n\n1. A1:S A2:S A3:S / B1:S B2:S B3:S\n');
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect } from "vitest";
+import vectors from "./golden-vectors.json";
+import {
+  parseGameState,
+  parseActions,
+  parseCanonicalState,
+  parseCanonicalActions,
+  canonicalizeState,
+  canonicalizeActions,
+  formatParseIssue,
+  createInitialState,
+  createRules,
+  MAX_TURNS,
+  statesEqual,
+  validateAction,
+  resolveTurn,
+  ActionType,
+  Direction,
+  Player,
+  type Action,
+  type GameState,
+} from "../src/index.js";
+
+/** Round-trip through JSON, as the state would arrive off the wire */
+const wire = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+const errorsOf = (input: unknown): string[] => {
+  const result = parseGameState(input);
+  return result.valid ? [] : result.errors.map(formatParseIssue);
+};
+
+describe("parseGameState", () => {
+  it("accepts the initial state", () => {
+    const state = createInitialState();
+    const result = parseGameState(wire(state));
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(statesEqual(result.value, state)).toBe(true);
+    }
+  });
+
+  it("accepts states with terrain and custom rules", () => {
+    const state: GameState = {
+      ...createInitialState(createRules({ boardWidth: 11 })),
+      terrain: [{ position: { x: 3, y: 6 }, type: "pillar" }],
+    };
+    const result = parseGameState(wire(state));
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(statesEqual(result.value, state)).toBe(true);
+    }
+  });
+
+  it("accepts rules serialized before tiebreak policies existed", () => {
+    const { tiebreak: _, ...legacyRules } = createRules({ boardWidth: 11 });
+    const result = parseGameState(wire({ ...createInitialState(createRules({ boardWidth: 11 })), rules: legacyRules }));
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.value.rules?.tiebreak).toBe("draw");
+    }
+  });
+
+  it("reports path-precise field errors", () => {
+    const state = wire(createInitialState()) as { quantars: Array<{ position: { x: unknown } }> };
+    state.quantars[2]!.position.x = 9;
+
+    expect(errorsOf(state)).toEqual(["quantars[2].position.x: expected integer 0-8"]);
+  });
+
+  it("reports every malformed field at once", () => {
+    const state = wire(createInitialState()) as Record<string, unknown>;
+    state.turn = "1";
+    state.phase = "paused";
+    state.extra = true;
+
+    expect(errorsOf(state)).toEqual([
+      'extra: unexpected field',
+      "turn: expected integer >= 1",
+      'phase: expected one of "playing", "ended"',
+    ]);
+  });
+
+  it("rejects duplicate ids, dead quantars and shared cells", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      quantars: [
+        ...base.quantars,
+        { id: "A1", owner: "A", position: { x: 0, y: 0 }, hp: 2 },
+        { id: "A9", owner: "A", position: { x: 4, y: 8 }, hp: 2 },
+        { id: "B9", owner: "B", position: { x: 1, y: 1 }, hp: 0 },
+      ],
+    };
+
+    expect(errorsOf(wire(state))).toEqual([
+      "quantars[8].hp: expected integer >= 1",
+    ]);
+
+    const alive = { ...state, quantars: state.quantars.slice(0, 8) };
+    expect(errorsOf(wire(alive))).toEqual([
+      "quantars[6].id: duplicate of quantars[0].id",
+      "quantars[7].position: same cell as cores.A.position",
+    ]);
+  });
+
+  it("requires the winner to match the phase", () => {
+    const state = { ...createInitialState(), winner: Player.A };
+    expect(errorsOf(wire(state))).toEqual(['winner: must be null while phase is "playing"']);
+  });
+
+  it("accepts a drawn game only if the board explains the draw", () => {
+    const base = createInitialState();
+    const drawn: GameState = { ...base, phase: "ended", winner: null };
+    const destroyed = { ...base.cores, A: { ...base.cores.A, hp: 0 }, B: { ...base.cores.B, hp: -1 } };
+
+    expect(errorsOf(wire(drawn))).toEqual(["winner: must be set: nothing on the board explains a draw"]);
+    expect(parseGameState(wire({ ...drawn, cores: destroyed })).valid).toBe(true);
+    expect(parseGameState(wire({ ...drawn, quantars: [] })).valid).toBe(true);
+    expect(parseGameState(wire({ ...drawn, turn: MAX_TURNS })).valid).toBe(true);
+    expect(parseGameState(wire({ ...drawn, rules: createRules({ repetitionLimit: 3 }) })).valid).toBe(true);
+  });
+
+  it("restricts quantar ids to characters the canonical forms cannot confuse", () => {
+    const base = createInitialState();
+    for (const id of ["A|1", "A:1", "A-1", "A 1", "é"]) {
+      const state = { ...base, quantars: base.quantars.map((q) => (q.id === "A1" ? { ...q, id } : q)) };
+      expect(errorsOf(wire(state))).toEqual([
+        "quantars[0].id: expected non-empty string of letters, digits and underscores",
+      ]);
+    }
+  });
+
+  it("allows a destroyed core once the game has ended", () => {
+    const base = createInitialState();
+    const state: GameState = {
+      ...base,
+      phase: "ended",
+      winner: "A",
+      cores: { A: base.cores.A, B: { ...base.cores.B, hp: -1 } },
+    };
+
+    expect(parseGameState(wire(state)).valid).toBe(true);
+    expect(errorsOf(wire({ ...state, phase: "playing", winner: null }))).toEqual([
+      "cores.B.hp: expected integer >= 1",
+    ]);
+  });
+
+  it("produces states the engine can resolve", () => {
+    const result = parseGameState(wire(createInitialState()));
+    if (!result.valid) throw new Error("expected a valid state");
+
+    const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+    const turn = resolveTurn({
+      state: result.value,
+      actionsA: shields(["A1", "A2", "A3"]),
+      actionsB: shields(["B1", "B2", "B3"]),
+    });
+    expect(turn.state.turn).toBe(2);
+  });
+});
+
+describe("parseActions", () => {
+  it("accepts well-formed actions", () => {
+    const actions: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+      { type: ActionType.Pulse, quantarId: "A2", direction: "NE" },
+      { type: ActionType.Shield, quantarId: "A3" },
+    ];
+    const result = parseActions(wire(actions));
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.value).toEqual(actions);
+    }
+  });
+
+  it("reports every malformed action", () => {
+    const result = parseActions([
+      { type: "MOVE", quantarId: "A1", direction: "NE" },
+      { type: "PULSE", quantarId: 7, direction: "N" },
+      { type: "SHIELD", quantarId: "A3", direction: "N" },
+      "SHIELD",
+      { type: "TELEPORT", quantarId: "A1" },
+    ]);
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors.map(formatParseIssue)).toEqual([
+        '[0].direction: expected one of "N", "E", "S", "W"',
+        "[1].quantarId: expected non-empty string of letters, digits and underscores",
+        "[2].direction: unexpected field",
+        "[3]: expected object",
+        '[4].type: expected one of "MOVE", "PULSE", "SHIELD"',
+      ]);
+    }
+  });
+
+  it("rejects non-arrays", () => {
+    const result = parseActions({ type: "SHIELD", quantarId: "A1" });
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe("validateAction with malformed input", () => {
+  it("rejects a non-string quantarId instead of crashing", () => {
+    const state = createInitialState();
+    const action = { type: ActionType.Shield, quantarId: { id: "A1" } } as unknown as Action;
+
+    const result = validateAction(state, action, Player.A);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("INVALID_ACTION_TYPE");
+    }
+  });
+});
+
+describe("parseCanonicalState", () => {
+  const initial = canonicalizeState(createInitialState());
+  const issues = (input: unknown): string[] => {
+    const result = parseCanonicalState(input);
+    return result.valid ? [] : result.errors.map(formatParseIssue);
+  };
+
+  it("round-trips the golden vectors", () => {
+    for (const vector of [...vectors.states.map((v) => v.canonical), initial]) {
+      const result = parseCanonicalState(vector);
+      expect(result.valid).toBe(true);
+      expect(result.valid && canonicalizeState(result.value)).toBe(vector);
+    }
+  });
+
+  it("round-trips every state of a game", () => {
+    let state = createInitialState(createRules({ maxTurns: 12, tiebreak: "core_hp" }));
+    const actionsB: Action[] = ["B1", "B2", "B3"].map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+    while (state.phase === "playing") {
+      const actionsA: Action[] = state.quantars
+        .filter((q) => q.owner === Player.A)
+        .map((q) => ({ type: ActionType.Pulse, quantarId: q.id, direction: Direction.North }));
+      const alive = actionsB.filter((a) => state.quantars.some((q) => q.id === a.quantarId));
+      state = resolveTurn({ state, actionsA, actionsB: alive }).state;
+
+      const parsed = parseCanonicalState(canonicalizeState(state));
+      expect(parsed.valid && statesEqual(parsed.value, state)).toBe(true);
+    }
+  });
+
+  it("rejects anything not in canonical form", () => {
+    expect(issues(initial.replace("T:1", "T:01"))).toEqual(['[0]: expected turn T:<n>, got "T:01"']);
+    expect(issues(initial.replace("|Q:A1:A:3,6:2|Q:A2:A:4,6:2", "|Q:A2:A:4,6:2|Q:A1:A:3,6:2"))).toEqual([
+      '[6]: quantar "A1" out of canonical order (sorted by id)',
+    ]);
+    expect(issues(initial.replace("W:null", "W:null|R:maxTurns=50"))).toEqual([
+      '[3]: rule "maxTurns" equals the default and must be omitted',
+    ]);
+    expect(issues(initial.replace("W:null", "W:null|R:maxTurns=30,boardWidth=7"))).toEqual([
+      '[3]: rule "boardWidth" out of canonical order',
+    ]);
+    expect(issues(initial.replace("T:1", "T:99999999999999999999"))).toEqual(["not in canonical form"]);
+  });
+
+  it("reports missing and malformed segments", () => {
+    expect(issues("T:1|P:playing")).toEqual(["[2]: missing winner W:<A|B|null>"]);
+    expect(issues(initial.replace("C:A", "C:B"))).toEqual(["[3]: expected core for player A"]);
+    expect(issues(`${initial}|Q:A9`)).toEqual(['[11]: expected quantar Q:<id>:<owner>:<x>,<y>:<hp>, got "Q:A9"']);
+    expect(issues(`${initial}|Q:A:9:A:0,1:2`)).toEqual([
+      '[11]: expected quantar Q:<id>:<owner>:<x>,<y>:<hp>, got "Q:A:9:A:0,1:2"',
+    ]);
+    expect(issues(`${initial}|X:wall:0,0|Q:A9:A:0,1:2`)).toEqual([
+      '[12]: expected terrain X:<type>:<x>,<y>, got "Q:A9:A:0,1:2"',
+    ]);
+    expect(issues(42)).toEqual(["expected canonical state string"]);
+  });
+
+  it("checks bounds and invariants like parseGameState", () => {
+    expect(issues(initial.replace("Q:A1:A:3,6:2", "Q:A1:A:3,9:2"))).toEqual([
+      "quantars[0].position.y: expected integer 0-8",
+    ]);
+    expect(issues(initial.replace("W:null", "W:A"))).toEqual(['winner: must be null while phase is "playing"']);
+  });
+});
+
+describe("parseCanonicalActions", () => {
+  it("round-trips canonical action strings", () => {
+    for (const vector of [...vectors.actions.map((v) => v.canonical), "", "M:A:1:N|S:A:2"]) {
+      const result = parseCanonicalActions(vector);
+      expect(result.valid && canonicalizeActions(result.value)).toBe(vector);
+    }
+  });
+
+  it("reports malformed and unsorted actions", () => {
+    const result = parseCanonicalActions("S:B1|M:A1:NE|X:A2|S:A3");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors.map(formatParseIssue)).toEqual([
+        '[1]: expected M:<id>:<direction>, P:<id>:<direction> or S:<id>, got "M:A1:NE"',
+        '[2]: expected M:<id>:<direction>, P:<id>:<direction> or S:<id>, got "X:A2"',
+        '[3]: action for "A3" out of canonical order (sorted by quantar id)',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  resolveTurn,
+  resolveTurnWithSnapshots,
+  getQuantar,
+  DEFAULT_PIPELINE,
+  PhaseName,
+  movePhase,
+  insertPhaseAfter,
+  insertPhaseBefore,
+  replacePhase,
+  removePhase,
+  ActionType,
+  Direction,
+  EventType,
+  type Action,
+  type GameState,
+  type ResolutionPhase,
+} from "../src/index.js";
+
+const state: GameState = {
+  ...createInitialState(),
+  quantars: [
+    { id: "A1", owner: "A", position: { x: 2, y: 6 }, hp: 2 },
+    { id: "A2", owner: "A", position: { x: 0, y: 8 }, hp: 2 },
+    { id: "B1", owner: "B", position: { x: 2, y: 3 }, hp: 2 },
+    { id: "B2", owner: "B", position: { x: 8, y: 0 }, hp: 2 },
+  ],
+};
+
+const actionsA: Action[] = [
+  { type: ActionType.Pulse, quantarId: "A1", direction: Direction.North },
+  { type: ActionType.Shield, quantarId: "A2" },
+];
+const actionsB: Action[] = [
+  { type: ActionType.Move, quantarId: "B1", direction: Direction.South },
+  { type: ActionType.Shield, quantarId: "B2" },
+];
+
+describe("Resolution pipeline", () => {
+  it("runs the standard phases in order", () => {
+    expect(DEFAULT_PIPELINE.map((phase) => phase.name)).toEqual([
+      PhaseName.Move,
+      PhaseName.Shield,
+      PhaseName.Pulse,
+      PhaseName.SuddenDeath,
+      PhaseName.Damage,
+      PhaseName.Cleanup,
+      PhaseName.WinCondition,
+    ]);
+    expect(DEFAULT_PIPELINE.map((phase) => phase.name)).toEqual(Object.values(PhaseName));
+    expect(resolveTurn({ state, actionsA, actionsB }, { pipeline: DEFAULT_PIPELINE })).toEqual(
+      resolveTurn({ state, actionsA, actionsB })
+    );
+  });
+
+  it("runs an inserted phase", () => {
+    const regeneration: ResolutionPhase = {
+      name: "regeneration",
+      run: (ctx) => {
+        for (const quantar of ctx.quantars) {
+          quantar.hp = Math.min(ctx.rules.quantarHp, quantar.hp + 1);
+        }
+      },
+    };
+    const pipeline = insertPhaseAfter(DEFAULT_PIPELINE, PhaseName.Cleanup, regeneration);
+
+    const result = resolveTurn({ state, actionsA, actionsB }, { pipeline });
+    expect(getQuantar(result.state, "B1")!.hp).toBe(2);
+    expect(DEFAULT_PIPELINE).toHaveLength(7);
+  });
+
+  it("supports reordering phases", () => {
+    // Pulses fired before moves hit B1 where it stood
+    const pipeline = insertPhaseAfter(removePhase(DEFAULT_PIPELINE, PhaseName.Move), PhaseName.Pulse, movePhase);
+
+    const hit = resolveTurn({ state, actionsA, actionsB }, { pipeline }).log.events.find(
+      (e) => e.type === EventType.PulseHit
+    );
+    expect(hit).toMatchObject({ targetId: "B1", position: { x: 2, y: 3 } });
+  });
+
+  it("supports replacing phases", () => {
+    const pipeline = replacePhase(DEFAULT_PIPELINE, PhaseName.Shield, { name: "no_shields", run: () => {} });
+
+    const result = resolveTurn(
+      { state, actionsA, actionsB: [{ type: ActionType.Shield, quantarId: "B1" }, actionsB[1]!] },
+      { pipeline }
+    );
+    expect(getQuantar(result.state, "B1")!.hp).toBe(1);
+    expect(result.log.events.some((e) => e.type === EventType.ShieldActivated)).toBe(false);
+  });
+
+  it("rejects unknown phase names", () => {
+    const phase: ResolutionPhase = { name: "noop", run: () => {} };
+    expect(() => insertPhaseBefore(DEFAULT_PIPELINE, "missing", phase)).toThrow(RangeError);
+    expect(() => removePhase(DEFAULT_PIPELINE, "missing")).toThrow(RangeError);
+  });
+});
+
+describe("Resolution hooks", () => {
+  it("calls hooks at their points in the turn", () => {
+    const calls: string[] = [];
+    const killer: GameState = {
+      ...state,
+      quantars: state.quantars.map((q) => (q.id === "B1" ? { ...q, hp: 1 } : q)),
+    };
+
+    resolveTurn(
+      { state: killer, actionsA, actionsB },
+      {
+        hooks: {
+          beforeMove: (ctx) => calls.push(`beforeMove:${ctx.events.length}`),
+          afterPulse: () => calls.push("afterPulse"),
+          onDamage: (_, event) => calls.push(`onDamage:${event.targetId}`),
+          onDestroy: (_, event) => calls.push(`onDestroy:${event.entityId}`),
+        },
+      }
+    );
+
+    expect(calls).toEqual(["beforeMove:0", "afterPulse", "onDamage:B1", "onDestroy:B1"]);
+  });
+
+  it("lets hooks change the outcome", () => {
+    const result = resolveTurn(
+      { state: { ...state, quantars: state.quantars.map((q) => ({ ...q, hp: 1 })) }, actionsA, actionsB },
+      {
+        hooks: {
+          onDamage: (ctx, event) => {
+            const quantar = ctx.quantars.find((q) => q.id === event.targetId);
+            if (quantar) quantar.hp = Math.max(quantar.hp, 1); // Last stand
+          },
+        },
+      }
+    );
+
+    expect(getQuantar(result.state, "B1")!.hp).toBe(1);
+    expect(result.log.events.some((e) => e.type === EventType.EntityDestroyed)).toBe(false);
+  });
+});
+
+describe("resolveTurnWithSnapshots", () => {
+  it("matches resolveTurn", () => {
+    const { snapshots, ...result } = resolveTurnWithSnapshots({ state, actionsA, actionsB });
+    expect(result).toEqual(resolveTurn({ state, actionsA, actionsB }));
+    expect(snapshots.map((s) => s.phase)).toEqual(DEFAULT_PIPELINE.map((phase) => phase.name));
+    expect(snapshots.flatMap((s) => s.events)).toEqual(result.log.events);
+  });
+
+  it("captures shields and pending damage between phases", () => {
+    const { snapshots } = resolveTurnWithSnapshots({ state, actionsA, actionsB });
+    const phases = [PhaseName.Move, PhaseName.Shield, PhaseName.Pulse, PhaseName.Damage];
+    const [moved, shielded, pulsed, damaged] = phases.map((name) => snapshots.find((s) => s.phase === name));
+    const b1 = (snapshot: typeof moved) => snapshot!.quantars.find((q) => q.id === "B1");
+
+    expect(b1(moved)).toMatchObject({ position: { x: 2, y: 4 }, hp: 2, pendingDamage: 0 });
+    expect(shielded!.quantars.find((q) => q.id === "A2")!.shielded).toBe(true);
+    expect(b1(pulsed)).toMatchObject({ hp: 2, pendingDamage: 1 });
+    expect(b1(damaged)).toMatchObject({ hp: 1, pendingDamage: 0 });
+    expect(pulsed!.events.map((e) => e.type)).toEqual([EventType.PulseFired, EventType.PulseHit]);
+  });
+
+  it("freezes snapshots", () => {
+    const { snapshots } = resolveTurnWithSnapshots({ state, actionsA, actionsB });
+    expect(Object.isFrozen(snapshots[0]!.quantars[0])).toBe(true);
+    expect(Object.isFrozen(snapshots[0]!.events)).toBe(true);
+  });
+});
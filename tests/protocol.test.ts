@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  resolveTurn,
+  createCommitment,
+  verifyReveal,
+  canonicalizeActions,
+  CommitRevealRound,
+  RoundPhase,
+  statesEqual,
+  ActionType,
+  Direction,
+  Player,
+  type Action,
+} from "../src/index.js";
+
+const NONCE_A = "6f1c0e2a9b7d4c35a8e1f0b2c3d4e5f6";
+const NONCE_B = "0a1b2c3d4e5f60718293a4b5c6d7e8f9";
+
+const actionsA: Action[] = [
+  { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+  { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+  { type: ActionType.Shield, quantarId: "A3" },
+];
+const actionsB: Action[] = ["B1", "B2", "B3"].map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+describe("Commitments", () => {
+  it("verifies the actions and nonce they were made from", () => {
+    const commitment = createCommitment(actionsA, NONCE_A);
+
+    expect(commitment).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(verifyReveal(commitment, actionsA, NONCE_A)).toEqual({ valid: true });
+    expect(verifyReveal(commitment, [...actionsA].reverse(), NONCE_A).valid).toBe(true);
+  });
+
+  it("rejects other actions or another nonce", () => {
+    const commitment = createCommitment(actionsA, NONCE_A);
+    const changed: Action[] = [{ ...actionsA[0]!, direction: Direction.South }, ...actionsA.slice(1)];
+
+    expect(verifyReveal(commitment, changed, NONCE_A).valid).toBe(false);
+    expect(verifyReveal(commitment, actionsA, NONCE_B).valid).toBe(false);
+  });
+
+  it("cannot be reopened by moving actions into the nonce", () => {
+    const [first, ...rest] = actionsA;
+    const commitment = createCommitment(actionsA, NONCE_A);
+
+    // Same bytes, split differently between actions and nonce
+    expect(verifyReveal(commitment, [first!], `|${canonicalizeActions(rest)}${NONCE_A}`).valid).toBe(false);
+  });
+
+  it("requires a SHA-256 commitment and a long enough nonce", () => {
+    expect(() => createCommitment(actionsA, "1234")).toThrow(RangeError);
+    expect(verifyReveal("1a2b3c4d", actionsA, NONCE_A)).toEqual({
+      valid: false,
+      error: "Commitment is not a SHA-256 hash",
+    });
+  });
+});
+
+describe("CommitRevealRound", () => {
+  it("plays a turn through commit and reveal", () => {
+    const state = createInitialState();
+    const round = new CommitRevealRound(state);
+
+    expect(round.pendingPlayers).toEqual([Player.A, Player.B]);
+    expect(round.commit(Player.B, createCommitment(actionsB, NONCE_B))).toEqual({
+      valid: true,
+      phase: RoundPhase.Committing,
+    });
+    expect(round.pendingPlayers).toEqual([Player.A]);
+    expect(round.commit(Player.A, createCommitment(actionsA, NONCE_A))).toEqual({
+      valid: true,
+      phase: RoundPhase.Revealing,
+    });
+    expect(round.reveal(Player.A, actionsA, NONCE_A).valid).toBe(true);
+    expect(round.turnInput).toBeNull();
+    expect(round.reveal(Player.B, actionsB, NONCE_B)).toEqual({ valid: true, phase: RoundPhase.Complete });
+
+    const direct = resolveTurn({ state, actionsA, actionsB });
+    expect(statesEqual(resolveTurn(round.turnInput!).state, direct.state)).toBe(true);
+    expect(round.pendingPlayers).toEqual([]);
+  });
+
+  it("refuses reveals until both players have committed", () => {
+    const round = new CommitRevealRound(createInitialState());
+    round.commit(Player.A, createCommitment(actionsA, NONCE_A));
+
+    expect(round.reveal(Player.A, actionsA, NONCE_A)).toEqual({
+      valid: false,
+      code: "WRONG_PHASE",
+      error: "Player B has not committed yet",
+    });
+    expect(round.hasRevealed(Player.A)).toBe(false);
+    expect(round.commit(Player.A, createCommitment(actionsB, NONCE_A))).toMatchObject({ code: "ALREADY_COMMITTED" });
+    expect(round.commit(Player.B, "sha256:xyz")).toMatchObject({ code: "INVALID_COMMITMENT" });
+  });
+
+  it("refuses reveals that do not match or break the rules", () => {
+    const round = new CommitRevealRound(createInitialState());
+    const illegal: Action[] = actionsB.slice(1);
+    round.commit(Player.A, createCommitment(actionsA, NONCE_A));
+    round.commit(Player.B, createCommitment(illegal, NONCE_B));
+
+    expect(round.reveal(Player.A, actionsB, NONCE_A)).toMatchObject({ valid: false, code: "REVEAL_MISMATCH" });
+    expect(round.reveal(Player.B, illegal, NONCE_B)).toMatchObject({ valid: false, code: "INVALID_ACTIONS" });
+    expect(round.pendingPlayers).toEqual([Player.A, Player.B]);
+
+    expect(round.reveal(Player.A, actionsA, NONCE_A).valid).toBe(true);
+    expect(round.reveal(Player.A, actionsA, NONCE_A)).toMatchObject({ code: "ALREADY_REVEALED" });
+    expect(round.getCommitment(Player.B)).toBe(createCommitment(illegal, NONCE_B));
+  });
+});
@@ -0,0 +1,349 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  createRules,
+  resolveTurn,
+  createReplayTurn,
+  createReplay,
+  getReplayGenesisHash,
+  verifyReplayChain,
+  verifyReplay,
+  parseReplay,
+  GameRecorder,
+  DEFAULT_PIPELINE,
+  PhaseName,
+  removePhase,
+  GamePhase,
+  canonicalizeState,
+  HashAlgorithm,
+  ActionType,
+  Direction,
+  type Action,
+  type GameState,
+  type Replay,
+  type ReplayTurn,
+} from "../src/index.js";
+
+const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+/** A few turns of A1 marching north while A2 fires and everyone else shields */
+function recordGame(turnCount: number, state: GameState = createInitialState()): Replay {
+  const turns: ReplayTurn[] = [];
+  let current = state;
+  for (let i = 0; i < turnCount; i++) {
+    const actionsA: Action[] = [
+      { type: ActionType.Move, quantarId: "A1", direction: i % 2 === 0 ? Direction.North : Direction.South },
+      { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+      ...shields(["A3"]),
+    ];
+    const actionsB = shields(["B1", "B2", "B3"]);
+    const result = resolveTurn({ state: current, actionsA, actionsB });
+    const previousChainHash = turns.at(-1)?.chainHash ?? getReplayGenesisHash(state);
+    const options = { previousChainHash, algorithm: HashAlgorithm.Sha256 };
+    turns.push(createReplayTurn(current, actionsA, actionsB, result.log, options));
+    current = result.state;
+  }
+  return createReplay(state, turns, current);
+}
+
+describe("Replay hash chain", () => {
+  it("chains every turn to the previous one", () => {
+    const replay = recordGame(4);
+
+    expect(replay.turns.map((t) => t.chainHash)).toHaveLength(new Set(replay.turns.map((t) => t.chainHash)).size);
+    expect(replay.rootHash).toBe(replay.turns[3]!.chainHash);
+    expect(verifyReplayChain(replay)).toEqual({ valid: true, rootHash: replay.rootHash });
+  });
+
+  it("uses the initial state as the genesis of an empty replay", () => {
+    const state = createInitialState();
+    const replay = createReplay(state, [], state);
+
+    expect(replay.rootHash).toBe(getReplayGenesisHash(state));
+    expect(verifyReplayChain(replay).valid).toBe(true);
+  });
+
+  it("detects a dropped turn", () => {
+    const replay = recordGame(4);
+    const tampered = { ...replay, turns: [replay.turns[0]!, ...replay.turns.slice(2)] };
+
+    expect(verifyReplayChain(tampered)).toMatchObject({ valid: false, turnIndex: 1 });
+  });
+
+  it("detects reordered turns", () => {
+    const replay = recordGame(4);
+    const [t0, t1, t2, t3] = replay.turns as [ReplayTurn, ReplayTurn, ReplayTurn, ReplayTurn];
+
+    expect(verifyReplayChain({ ...replay, turns: [t0, t2, t1, t3] })).toMatchObject({ valid: false, turnIndex: 1 });
+  });
+
+  it("detects edited actions", () => {
+    const replay = recordGame(4);
+    const turns = replay.turns.map((t, i) => (i === 2 ? { ...t, actionsB: shields(["B1"]) } : t));
+
+    const result = verifyReplayChain({ ...replay, turns });
+    expect(result).toMatchObject({ valid: false, turnIndex: 2, actual: replay.turns[2]!.chainHash });
+  });
+
+  it("chains the SHA-256 turn hash, not the stored stateHash", () => {
+    const state = createInitialState();
+    const log = { turn: state.turn, events: [] };
+    const previousChainHash = getReplayGenesisHash(state);
+    const first = createReplayTurn(state, [], [], log, { previousChainHash });
+    const moved = { ...state, quantars: state.quantars.slice(1) };
+    const forged = { ...createReplayTurn(moved, [], [], log, { previousChainHash }), stateHash: first.stateHash };
+
+    expect(forged.turnHash).not.toBe(first.turnHash);
+    expect(forged.chainHash).not.toBe(first.chainHash);
+  });
+
+  it("detects turns spliced in from another game", () => {
+    const replay = recordGame(4);
+    const other = recordGame(4, { ...createInitialState(), turn: 5 });
+    const turns = [...replay.turns, ...other.turns];
+
+    expect(verifyReplayChain({ ...replay, turns, rootHash: other.rootHash })).toMatchObject({
+      valid: false,
+      turnIndex: 4,
+    });
+  });
+
+  it("detects a swapped initial state or root", () => {
+    const replay = recordGame(2);
+
+    expect(verifyReplayChain({ ...replay, initialState: { ...replay.initialState, turn: 2 } })).toMatchObject({
+      valid: false,
+      turnIndex: 0,
+    });
+    expect(verifyReplayChain({ ...replay, rootHash: replay.turns[0]!.chainHash })).toMatchObject({
+      valid: false,
+      turnIndex: 2,
+    });
+  });
+});
+
+describe("Replay verification", () => {
+  it("accepts a replay that re-simulates exactly", () => {
+    const replay = recordGame(4);
+    const report = verifyReplay(replay);
+
+    expect(report).toMatchObject({ valid: true, turns: 4 });
+    expect(report.valid && canonicalizeState(report.finalState)).toBe(canonicalizeState(replay.finalState));
+  });
+
+  it("reports a tampered state hash", () => {
+    const replay = recordGame(3);
+    const turns = replay.turns.map((t, i) => (i === 1 ? { ...t, stateHash: replay.turns[0]!.stateHash } : t));
+
+    expect(verifyReplay({ ...replay, turns })).toMatchObject({
+      valid: false,
+      turnIndex: 1,
+      field: "stateHash",
+      expected: replay.turns[1]!.stateHash,
+      actual: replay.turns[0]!.stateHash,
+    });
+  });
+
+  it("reports a turn hash that does not match the state", () => {
+    const replay = recordGame(3);
+    const turns = replay.turns.map((t, i) => (i === 1 ? { ...t, turnHash: replay.turns[0]!.turnHash } : t));
+
+    expect(verifyReplay({ ...replay, turns })).toMatchObject({
+      valid: false,
+      turnIndex: 1,
+      field: "turnHash",
+      expected: replay.turns[1]!.turnHash,
+      actual: replay.turns[0]!.turnHash,
+    });
+  });
+
+  it("reports illegal actions", () => {
+    const replay = recordGame(3);
+    const illegal: Action[] = [{ type: ActionType.Shield, quantarId: "B1" }];
+    const turns = replay.turns.map((t, i) => (i === 2 ? { ...t, actionsA: illegal } : t));
+
+    expect(verifyReplay({ ...replay, turns })).toMatchObject({ valid: false, turnIndex: 2, field: "actionsA" });
+  });
+
+  it("reports an edited log with both canonical forms", () => {
+    const replay = recordGame(3);
+    const turns = replay.turns.map((t, i) => (i === 0 ? { ...t, log: { ...t.log, events: [] } } : t));
+    const report = verifyReplay({ ...replay, turns });
+
+    expect(report).toMatchObject({ valid: false, turnIndex: 0, field: "log" });
+    expect(!report.valid && report.actual).toContain('"events":[]');
+    expect(!report.valid && report.expected).not.toContain('"events":[]');
+  });
+
+  it("leaves log events untyped until they are verified", () => {
+    const replay = recordGame(2);
+    const truncated = { turn: 1, events: [{ type: "MOVE", quantarId: "A1" }] };
+    const turns = replay.turns.map((t, i) => (i === 0 ? { ...t, log: truncated } : t));
+    const parsed = parseReplay({ ...replay, turns });
+
+    expect(parsed.valid && parsed.value.turns[0]!.log).toEqual(truncated);
+    expect(verifyReplay({ ...replay, turns })).toMatchObject({ valid: false, turnIndex: 0, field: "log" });
+  });
+
+  it("ignores key order in recorded logs", () => {
+    const reverseKeys = (value: unknown): unknown =>
+      Array.isArray(value)
+        ? value.map(reverseKeys)
+        : value !== null && typeof value === "object"
+          ? Object.fromEntries(Object.entries(value).reverse().map(([k, v]) => [k, reverseKeys(v)]))
+          : value;
+    const replay = recordGame(2);
+    const turns = replay.turns.map((t) => ({ ...t, log: reverseKeys(t.log) as ReplayTurn["log"] }));
+
+    expect(JSON.stringify(turns[0]!.log)).not.toBe(JSON.stringify(replay.turns[0]!.log));
+    expect(verifyReplay({ ...replay, turns }).valid).toBe(true);
+  });
+
+  it("reports a wrong final state or winner", () => {
+    const replay = recordGame(2);
+
+    expect(verifyReplay({ ...replay, finalState: replay.initialState })).toMatchObject({
+      valid: false,
+      turnIndex: null,
+      field: "finalState",
+      expected: canonicalizeState(replay.finalState),
+      actual: canonicalizeState(replay.initialState),
+    });
+    expect(verifyReplay({ ...replay, winner: "A" })).toMatchObject({ valid: false, turnIndex: null, field: "winner" });
+  });
+
+  it("reports malformed replay JSON instead of throwing", () => {
+    const replay = JSON.parse(JSON.stringify(recordGame(2)));
+    const malformed = [
+      null,
+      "replay",
+      { ...replay, turns: { 0: replay.turns[0] } },
+      { ...replay, turns: [{ ...replay.turns[0], actionsA: "shield everything" }] },
+      { ...replay, initialState: { ...replay.initialState, quantars: 3 } },
+      { ...replay, turns: [{ ...replay.turns[0], log: { turn: 1, events: null } }] },
+    ];
+
+    for (const input of malformed) {
+      expect(verifyReplay(input)).toMatchObject({ valid: false, turnIndex: null, field: "format" });
+    }
+    const missingId = { ...replay, turns: [{ ...replay.turns[0], actionsA: [{ type: ActionType.Shield }] }] };
+    expect(verifyReplay(missingId)).toMatchObject({
+      error: "Malformed replay: turns[0].actionsA[0].quantarId: missing field",
+    });
+  });
+
+  it("reports a broken chain once the game itself checks out", () => {
+    const replay = recordGame(2);
+
+    expect(verifyReplay({ ...replay, rootHash: replay.turns[0]!.chainHash })).toMatchObject({
+      valid: false,
+      turnIndex: 2,
+      field: "chainHash",
+    });
+  });
+});
+
+describe("GameRecorder", () => {
+  const actionsA: Action[] = [
+    { type: ActionType.Move, quantarId: "A1", direction: Direction.North },
+    { type: ActionType.Pulse, quantarId: "A2", direction: Direction.North },
+    ...shields(["A3"]),
+  ];
+  const actionsB = shields(["B1", "B2", "B3"]);
+
+  it("records the same replay as building it by hand", () => {
+    const recorder = new GameRecorder(createInitialState(), { algorithm: HashAlgorithm.Sha256 });
+    const manual = recordGame(3);
+    for (const turn of manual.turns) {
+      expect(recorder.playTurn(turn.actionsA, turn.actionsB).valid).toBe(true);
+    }
+
+    expect(recorder.toReplay()).toEqual(manual);
+    expect(verifyReplay(recorder.toReplay()).valid).toBe(true);
+  });
+
+  it("refuses invalid actions without recording anything", () => {
+    const recorder = new GameRecorder();
+    const outcome = recorder.playTurn(actionsA, shields(["B1", "B2"]));
+
+    expect(outcome).toMatchObject({ valid: false, player: "B", error: { code: "MISSING_QUANTAR_ACTION" } });
+    expect(recorder.turns).toHaveLength(0);
+    expect(recorder.state).toBe(recorder.initialState);
+  });
+
+  it("finalizes a replay once the game ends", () => {
+    const recorder = new GameRecorder(createInitialState(createRules({ maxTurns: 3 })));
+
+    recorder.playTurn(actionsA, actionsB);
+    expect(recorder.replay).toBeNull();
+    recorder.playTurn(actionsA, actionsB);
+
+    expect(recorder.ended).toBe(true);
+    expect(recorder.replay).toMatchObject({ winner: recorder.state.winner, finalState: recorder.state });
+    expect(recorder.playTurn(actionsA, actionsB)).toMatchObject({
+      valid: false,
+      error: { code: "GAME_NOT_IN_ACTION_PHASE" },
+    });
+  });
+
+  it("undoes turns back to the initial state", () => {
+    const recorder = new GameRecorder();
+    recorder.playTurn(actionsA, actionsB);
+    const afterFirst = recorder.state;
+    const second = recorder.playTurn(actionsA, actionsB);
+
+    expect(second.valid && recorder.undo()).toBe(second.valid && second.turn);
+    expect(recorder.state).toBe(afterFirst);
+    recorder.undo();
+    expect(recorder.state).toBe(recorder.initialState);
+    expect(recorder.undo()).toBeNull();
+  });
+
+  it("reopens an ended game on undo", () => {
+    const recorder = new GameRecorder(createInitialState(createRules({ maxTurns: 1 })));
+    recorder.playTurn(actionsA, actionsB);
+    expect(recorder.state.phase).toBe(GamePhase.Ended);
+
+    recorder.undo();
+    expect(recorder.ended).toBe(false);
+    expect(recorder.replay).toBeNull();
+  });
+
+  it("forks from any turn without affecting the original", () => {
+    const recorder = new GameRecorder();
+    recorder.playTurn(actionsA, actionsB);
+    const branchPoint = recorder.state;
+    recorder.playTurn(actionsA, actionsB);
+    recorder.playTurn(actionsA, actionsB);
+
+    const fork = recorder.fork(1);
+    expect(fork.state).toBe(branchPoint);
+    expect(fork.turns).toEqual(recorder.turns.slice(0, 1));
+
+    fork.playTurn(shields(["A1", "A2", "A3"]), actionsB);
+    expect(recorder.turns).toHaveLength(3);
+    expect(fork.turns).toHaveLength(2);
+    expect(verifyReplay(fork.toReplay()).valid).toBe(true);
+
+    expect(() => recorder.fork(4)).toThrow(RangeError);
+    expect(recorder.fork().turns).toEqual(recorder.turns);
+  });
+
+  it("refuses to export a replay resolved with a custom pipeline", () => {
+    const pipeline = removePhase(DEFAULT_PIPELINE, PhaseName.Shield);
+    const custom = new GameRecorder(createInitialState(createRules({ maxTurns: 3 })), { resolution: { pipeline } });
+    custom.playTurn(actionsA, actionsB);
+    custom.playTurn(actionsA, actionsB);
+
+    expect(custom.ended).toBe(true);
+    expect(custom.replay).toBeNull();
+    expect(() => custom.toReplay()).toThrow(RangeError);
+    const hooked = new GameRecorder(createInitialState(), { resolution: { hooks: { beforeMove: () => {} } } });
+    expect(() => hooked.toReplay()).toThrow(RangeError);
+    expect(verifyReplay(new GameRecorder(createInitialState(), { resolution: { hooks: {} } }).toReplay()).valid).toBe(true);
+
+    const standard = new GameRecorder(createInitialState(), { resolution: { pipeline: DEFAULT_PIPELINE } });
+    standard.playTurn(actionsA, actionsB);
+    expect(verifyReplay(standard.toReplay()).valid).toBe(true);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  loadScenario,
+  parseScenario,
+  createInitialState,
+  statesEqual,
+  getQuantar,
+  GamePhase,
+  type Scenario,
+} from "../src/index.js";
+
+const whitepaperScenario: Scenario = {
+  name: "Whitepaper opening",
+  cores: {
+    A: { position: { x: 4, y: 8 } },
+    B: { position: { x: 4, y: 0 } },
+  },
+  quantars: [
+    { id: "A1", owner: "A", position: { x: 3, y: 6 } },
+    { id: "A2", owner: "A", position: { x: 4, y: 6 } },
+    { id: "A3", owner: "A", position: { x: 5, y: 6 } },
+    { id: "B1", owner: "B", position: { x: 3, y: 2 } },
+    { id: "B2", owner: "B", position: { x: 4, y: 2 } },
+    { id: "B3", owner: "B", position: { x: 5, y: 2 } },
+  ],
+};
+
+describe("loadScenario", () => {
+  it("reproduces the initial state from the whitepaper layout", () => {
+    const result = loadScenario(whitepaperScenario);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(statesEqual(result.state, createInitialState())).toBe(true);
+    }
+  });
+
+  it("applies rules, HP overrides and the starting turn", () => {
+    const result = loadScenario({
+      rules: { boardWidth: 7, boardHeight: 7, quantarHp: 3 },
+      turn: 10,
+      cores: {
+        A: { position: { x: 3, y: 6 }, hp: 1 },
+        B: { position: { x: 3, y: 0 } },
+      },
+      quantars: [
+        { id: "scout", owner: "A", position: { x: 0, y: 0 } },
+        { id: "tank", owner: "B", position: { x: 6, y: 6 }, hp: 5 },
+      ],
+    });
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      const { state } = result;
+      expect(state.turn).toBe(10);
+      expect(state.phase).toBe(GamePhase.Playing);
+      expect(state.rules?.boardWidth).toBe(7);
+      expect(state.cores.A.hp).toBe(1);
+      expect(state.cores.B.hp).toBe(5);
+      expect(getQuantar(state, "scout")!.hp).toBe(3);
+      expect(getQuantar(state, "tank")!.hp).toBe(5);
+    }
+  });
+
+  it("rejects out-of-bounds placements", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      quantars: [
+        ...whitepaperScenario.quantars,
+        { id: "A4", owner: "A", position: { x: 9, y: 4 } },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("OUT_OF_BOUNDS");
+      expect(result.path).toBe("quantars[6].position");
+    }
+  });
+
+  it("rejects overlapping entities", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      quantars: [
+        ...whitepaperScenario.quantars,
+        { id: "A4", owner: "A", position: { x: 4, y: 8 } },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("OVERLAPPING_ENTITIES");
+      expect(result.error).toContain("cores.A");
+    }
+  });
+
+  it("rejects duplicate quantar ids", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      quantars: [
+        ...whitepaperScenario.quantars,
+        { id: "B3", owner: "B", position: { x: 0, y: 0 } },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("DUPLICATE_QUANTAR_ID");
+    }
+  });
+
+  it("rejects quantar ids with canonical separators", () => {
+    // "X:A:1,1:2|Q:Y" would canonicalize like separate quantars X and Y
+    for (const id of ["X:A:1,1:2|Q:Y", "A|1", "A,1", "A-1", "é", ""]) {
+      const result = loadScenario({
+        ...whitepaperScenario,
+        quantars: [...whitepaperScenario.quantars, { id, owner: "B", position: { x: 0, y: 0 } }],
+      });
+
+      expect(result).toMatchObject({ valid: false, code: "INVALID_FIELD", path: "quantars[6].id" });
+    }
+  });
+
+  it("rejects a side without quantars", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      quantars: whitepaperScenario.quantars.filter((q) => q.owner === "A"),
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("EMPTY_ROSTER");
+    }
+  });
+
+  it("places terrain and lets quantars stand on pillars only", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      terrain: [
+        { position: { x: 0, y: 4 }, type: "wall" },
+        { position: { x: 3, y: 6 }, type: "pillar" },
+      ],
+    });
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.state.terrain).toHaveLength(2);
+    }
+
+    const blocked = loadScenario({
+      ...whitepaperScenario,
+      terrain: [{ position: { x: 3, y: 6 }, type: "pit" }],
+    });
+
+    expect(blocked.valid).toBe(false);
+    if (!blocked.valid) {
+      expect(blocked.code).toBe("OVERLAPPING_ENTITIES");
+      expect(blocked.path).toBe("quantars[0].position");
+    }
+  });
+
+  it("rejects unknown terrain types", () => {
+    const result = loadScenario({
+      ...whitepaperScenario,
+      terrain: [{ position: { x: 0, y: 4 }, type: "lava" }],
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.path).toBe("terrain[0].type");
+    }
+  });
+
+  it("rejects unknown rules", () => {
+    const result = loadScenario({ ...whitepaperScenario, rules: { gravity: 1 } });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("INVALID_RULES");
+      expect(result.path).toBe("rules.gravity");
+    }
+  });
+});
+
+describe("parseScenario", () => {
+  it("loads scenario JSON text", () => {
+    const result = parseScenario(JSON.stringify(whitepaperScenario));
+    expect(result.valid).toBe(true);
+  });
+
+  it("reports malformed JSON", () => {
+    const result = parseScenario("{ cores: ");
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe("INVALID_JSON");
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  createRules,
+  resolveTurn,
+  diffStates,
+  applyStatePatch,
+  statesEqual,
+  HashAlgorithm,
+  ActionType,
+  Direction,
+  GamePhase,
+  Player,
+  type Action,
+  type GameState,
+} from "../src/index.js";
+
+const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+/** States of a short game in which A's pulses wear down B's quantars */
+function playGame(): GameState[] {
+  const states = [createInitialState(createRules({ maxTurns: 8 }))];
+  let state = states[0]!;
+  while (state.phase === GamePhase.Playing) {
+    const actionsA: Action[] = state.quantars
+      .filter((q) => q.owner === Player.A)
+      .map((q) => ({ type: ActionType.Pulse, quantarId: q.id, direction: Direction.North }));
+    const actionsB = state.quantars
+      .filter((q) => q.owner === Player.B)
+      .map((q): Action => ({ type: ActionType.Move, quantarId: q.id, direction: Direction.South }));
+    state = resolveTurn({ state, actionsA, actionsB }).state;
+    states.push(state);
+  }
+  return states;
+}
+
+describe("State patches", () => {
+  it("reproduces every turn of a game", () => {
+    const states = playGame();
+    const patches = states.slice(1).map((next, i) => diffStates(states[i]!, next));
+    for (const [i, patch] of patches.entries()) {
+      const result = applyStatePatch(states[i]!, patch);
+
+      expect(result.valid).toBe(true);
+      expect(result.valid && statesEqual(result.state, states[i + 1]!)).toBe(true);
+      expect(JSON.stringify(patch).length).toBeLessThan(JSON.stringify(states[i + 1]).length);
+    }
+    expect(patches.some((p) => p.removedQuantars)).toBe(true);
+  });
+
+  it("contains only what changed", () => {
+    const prev = createInitialState();
+    const [a1, a2, ...rest] = prev.quantars;
+    const next: GameState = {
+      ...prev,
+      turn: 2,
+      quantars: [{ ...a1!, position: { x: 3, y: 5 } }, { ...a2!, hp: 1 }, ...rest.slice(1)],
+      cores: { ...prev.cores, B: { ...prev.cores.B, hp: 4 } },
+    };
+
+    expect(diffStates(prev, next)).toEqual({
+      baseHash: expect.any(String),
+      resultHash: expect.any(String),
+      turn: 2,
+      cores: { B: { hp: 4 } },
+      quantars: [
+        { id: "A1", position: { x: 3, y: 5 } },
+        { id: "A2", hp: 1 },
+      ],
+      removedQuantars: ["A3"],
+    });
+    expect(Object.keys(diffStates(prev, prev))).toEqual(["baseHash", "resultHash"]);
+  });
+
+  it("records the end of the game", () => {
+    const prev = createInitialState();
+    const next: GameState = { ...prev, phase: GamePhase.Ended, winner: Player.B };
+
+    expect(diffStates(prev, next)).toMatchObject({ phase: GamePhase.Ended, winner: Player.B });
+  });
+
+  it("adds quantars that were not in the base state", () => {
+    const next = createInitialState();
+    const prev: GameState = { ...next, quantars: next.quantars.filter((q) => q.id !== "B2") };
+    const patch = diffStates(prev, next);
+
+    expect(patch.addedQuantars).toEqual([next.quantars.find((q) => q.id === "B2")]);
+    expect(applyStatePatch(prev, patch).valid).toBe(true);
+  });
+
+  it("refuses added quantars with unsafe ids", () => {
+    const next = createInitialState();
+    const prev: GameState = { ...next, quantars: next.quantars.filter((q) => q.id !== "B2") };
+    const patch = diffStates(prev, next);
+    const forged = { ...patch, addedQuantars: [{ ...patch.addedQuantars![0]!, id: "X:A:1,1:2|Q:Y" }] };
+
+    expect(applyStatePatch(prev, forged)).toMatchObject({ valid: false, code: "INVALID_QUANTAR_ID" });
+  });
+
+  it("detects a client that is out of sync", () => {
+    const [s0, s1, s2] = playGame() as [GameState, GameState, GameState];
+
+    expect(applyStatePatch(s0, diffStates(s1, s2))).toMatchObject({
+      valid: false,
+      code: "BASE_MISMATCH",
+      actual: diffStates(s0, s1).baseHash,
+    });
+  });
+
+  it("detects a patch that does not produce the expected state", () => {
+    const [s0, s1] = playGame() as [GameState, GameState];
+    const patch = diffStates(s0, s1);
+
+    expect(applyStatePatch(s0, { ...patch, turn: 7 })).toMatchObject({ valid: false, code: "RESULT_MISMATCH" });
+    expect(applyStatePatch(s0, { ...patch, quantars: [{ id: "Z9", hp: 1 }] })).toMatchObject({
+      valid: false,
+      code: "RESULT_MISMATCH",
+    });
+  });
+
+  it("verifies with the algorithm the patch was made with", () => {
+    const [s0, s1] = playGame() as [GameState, GameState];
+    const patch = diffStates(s0, s1, { algorithm: HashAlgorithm.Sha256 });
+
+    expect(patch.resultHash).toMatch(/^sha256:/);
+    expect(applyStatePatch(s0, patch).valid).toBe(true);
+  });
+
+  it("carries terrain and rules over unchanged", () => {
+    const prev: GameState = {
+      ...createInitialState(createRules({ maxTurns: 20 })),
+      terrain: [{ position: { x: 0, y: 4 }, type: "wall" }],
+    };
+    const actionsA = shields(["A1", "A2", "A3"]);
+    const next = resolveTurn({ state: prev, actionsA, actionsB: shields(["B1", "B2", "B3"]) }).state;
+    const result = applyStatePatch(prev, diffStates(prev, next));
+
+    expect(result.valid && result.state.terrain).toEqual(prev.terrain);
+    expect(result.valid && result.state.rules).toEqual(prev.rules);
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  createRules,
+  resolveTurn,
+  getVisibleCells,
+  projectStateForPlayer,
+  filterLogForPlayer,
+  HIDDEN_QUANTAR_ID,
+  HIDDEN_POSITION,
+  validatePlayerActions,
+  ActionType,
+  Direction,
+  EventType,
+  GamePhase,
+  Player,
+  VisibilityMode,
+  type Action,
+  type GameState,
+  type Position,
+  type TurnLog,
+} from "../src/index.js";
+
+const shields = (ids: string[]): Action[] => ids.map((quantarId) => ({ type: ActionType.Shield, quantarId }));
+
+const ids = (state: GameState) => state.quantars.map((q) => q.id);
+
+describe("Player views", () => {
+  it("shows everything under full visibility", () => {
+    const state = createInitialState();
+
+    expect(projectStateForPlayer(state, Player.A)).toBe(state);
+    expect(getVisibleCells(state, Player.A)).toHaveLength(81);
+  });
+
+  it("rejects unknown visibility settings", () => {
+    expect(() => createRules({ visibility: "xray" as VisibilityMode })).toThrow(RangeError);
+    expect(() => createRules({ visionRadius: -1 })).toThrow(RangeError);
+  });
+
+  it("hides opponents outside the vision radius", () => {
+    const state = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 3 }));
+    const view = projectStateForPlayer(state, Player.A);
+
+    expect(ids(view)).toEqual(["A1", "A2", "A3"]);
+    expect(view.cores).toEqual(state.cores);
+    expect(getVisibleCells(state, Player.A)).toContainEqual({ x: 4, y: 3 });
+    expect(getVisibleCells(state, Player.A)).not.toContainEqual({ x: 4, y: 2 });
+
+    const wider = { ...state, rules: createRules({ visibility: VisibilityMode.Radius, visionRadius: 4 }) };
+    expect(ids(projectStateForPlayer(wider, Player.B))).toEqual(ids(state));
+  });
+
+  it("sees along the pulse lanes until something blocks them", () => {
+    const state: GameState = {
+      ...createInitialState(createRules({ visibility: VisibilityMode.Lanes })),
+      terrain: [
+        { position: { x: 3, y: 4 }, type: "wall" },
+        { position: { x: 5, y: 4 }, type: "pit" },
+      ],
+    };
+
+    // A1's lane is walled off; B2 and B3 are in view over open ground and a pit
+    expect(ids(projectStateForPlayer(state, Player.A))).toEqual(["A1", "A2", "A3", "B2", "B3"]);
+    const cells = getVisibleCells(state, Player.A);
+    expect(cells).toContainEqual({ x: 4, y: 2 });
+    expect(cells).not.toContainEqual({ x: 4, y: 1 }); // Behind B2
+    expect(cells).not.toContainEqual({ x: 3, y: 4 }); // The wall itself
+    expect(cells).toContainEqual({ x: 2, y: 5 }); // Diagonal neighbour
+  });
+
+  it("sees a quantar standing on a pillar", () => {
+    const state: GameState = {
+      ...createInitialState(createRules({ visibility: VisibilityMode.Lanes })),
+      terrain: [
+        { position: { x: 4, y: 2 }, type: "pillar" },
+        { position: { x: 7, y: 6 }, type: "pillar" },
+      ],
+    };
+
+    // B2 stands on the first pillar; the empty one still ends A3's lane
+    expect(ids(projectStateForPlayer(state, Player.A))).toContain("B2");
+    const cells = getVisibleCells(state, Player.A);
+    expect(cells).toContainEqual({ x: 4, y: 2 });
+    expect(cells).not.toContainEqual({ x: 8, y: 6 });
+  });
+
+  it("reveals the whole board once the game has ended", () => {
+    const state = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 0 }));
+    const ended = { ...state, phase: GamePhase.Ended, winner: Player.A };
+
+    expect(projectStateForPlayer(ended, Player.B)).toBe(ended);
+  });
+
+  it("leaves validation to the full state", () => {
+    const state = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 1 }));
+    const actions = shields(["A1", "A2", "A3"]);
+
+    expect(validatePlayerActions(state, actions, Player.A).valid).toBe(true);
+    expect(validatePlayerActions(projectStateForPlayer(state, Player.A), actions, Player.A).valid).toBe(true);
+  });
+});
+
+describe("filterLogForPlayer", () => {
+  it("keeps the whole log under full visibility", () => {
+    const state = createInitialState();
+    const { log } = resolveTurn({ state, actionsA: shields(["A1", "A2", "A3"]), actionsB: shields(["B1", "B2", "B3"]) });
+
+    expect(filterLogForPlayer(log, Player.A, state)).toBe(log);
+  });
+
+  it("strips opponent events out of sight", () => {
+    const state = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 3 }));
+    const actionsA = shields(["A1", "A2", "A3"]);
+    const actionsB: Action[] = [
+      { type: ActionType.Move, quantarId: "B1", direction: Direction.North },
+      { type: ActionType.Move, quantarId: "B2", direction: Direction.South },
+      { type: ActionType.Pulse, quantarId: "B3", direction: Direction.South },
+    ];
+    const { log } = resolveTurn({ state, actionsA, actionsB });
+    const seenByA = filterLogForPlayer(log, Player.A, state);
+
+    // B2 steps into range; B1's retreat and B3's pulse happen out of sight
+    expect(seenByA.events).toContainEqual(expect.objectContaining({ type: EventType.Move, quantarId: "B2" }));
+    expect(seenByA.events).not.toContainEqual(expect.objectContaining({ type: EventType.Move, quantarId: "B1" }));
+    expect(seenByA.events).not.toContainEqual(expect.objectContaining({ type: EventType.PulseFired }));
+    expect(seenByA.events.filter((e) => e.type === EventType.ShieldActivated)).toHaveLength(3);
+
+    // B3's pulse hits A3, so A learns where it landed, but not who fired it
+    expect(seenByA.events).toContainEqual(
+      expect.objectContaining({ type: EventType.PulseHit, sourceQuantarId: HIDDEN_QUANTAR_ID, targetId: "A3" })
+    );
+    expect(JSON.stringify(seenByA)).not.toContain('"B3"');
+
+    // Having stepped forward, B2 sees A2 shield but not A1
+    const shieldsSeenByB = filterLogForPlayer(log, Player.B, state).events.filter(
+      (e) => e.type === EventType.ShieldActivated
+    );
+    expect(shieldsSeenByB).toEqual([expect.objectContaining({ quantarId: "A2" })]);
+  });
+
+  it("names no cell or quantar that A's views before and after the turn hide", () => {
+    const initial = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 1 }));
+    const state: GameState = {
+      ...initial,
+      quantars: initial.quantars.map((q) => (q.id === "B1" ? { ...q, position: { x: 3, y: 5 } } : q)),
+    };
+    const actionsB: Action[] = [
+      { type: ActionType.Move, quantarId: "B1", direction: Direction.North },
+      { type: ActionType.Move, quantarId: "B2", direction: Direction.South },
+      { type: ActionType.Pulse, quantarId: "B3", direction: Direction.South },
+    ];
+    const result = resolveTurn({ state, actionsA: shields(["A1", "A2", "A3"]), actionsB });
+    const seenByA = filterLogForPlayer(result.log, Player.A, state);
+
+    const views = [state, result.state];
+    const cells = new Set(views.flatMap((s) => getVisibleCells(s, Player.A)).map((p) => `${p.x},${p.y}`));
+    const known = new Set(views.flatMap((s) => ids(projectStateForPlayer(s, Player.A))));
+    const named = (log: TurnLog) =>
+      log.events.flatMap((e): (string | Position)[] => {
+        switch (e.type) {
+          case EventType.Move:
+            return [e.quantarId, e.from, e.to];
+          case EventType.PulseHit:
+            return [e.sourceQuantarId, e.position, ...(e.targetType === "quantar" ? [e.targetId] : [])];
+          case EventType.DamageApplied:
+            return e.sources.map((s) => s.quantarId);
+          case EventType.MoveBlocked:
+          case EventType.PulseFired:
+            return [e.quantarId, e.from];
+          case EventType.PulseMiss:
+          case EventType.ShieldActivated:
+          case EventType.TerrainHit:
+            return [e.quantarId];
+          default:
+            return [];
+        }
+      });
+
+    for (const item of named(seenByA)) {
+      if (typeof item === "string") {
+        expect(item === HIDDEN_QUANTAR_ID || known.has(item), item).toBe(true);
+      } else {
+        expect(item === HIDDEN_POSITION || cells.has(`${item.x},${item.y}`), JSON.stringify(item)).toBe(true);
+      }
+    }
+    // B1 is seen leaving (3,5), but not where it went
+    expect(seenByA.events).toContainEqual({
+      type: EventType.Move,
+      quantarId: "B1",
+      from: { x: 3, y: 5 },
+      to: HIDDEN_POSITION,
+    });
+  });
+
+  it("always keeps damage to the Cores and the end of the game", () => {
+    const initial = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 0 }));
+    const state: GameState = {
+      ...initial,
+      cores: { ...initial.cores, A: { ...initial.cores.A, hp: 1 } },
+      quantars: [
+        { id: "A1", owner: "A", position: { x: 0, y: 0 }, hp: 2 },
+        { id: "B1", owner: "B", position: { x: 4, y: 5 }, hp: 2 },
+      ],
+    };
+    const { log } = resolveTurn({
+      state,
+      actionsA: shields(["A1"]),
+      actionsB: [{ type: ActionType.Pulse, quantarId: "B1", direction: Direction.South }],
+    });
+    const types = filterLogForPlayer(log, Player.A, state).events.map((e) => e.type);
+
+    expect(types).toContain(EventType.DamageApplied);
+    expect(types).toContain(EventType.EntityDestroyed);
+    expect(types).toContain(EventType.GameOver);
+    expect(types).not.toContain(EventType.PulseFired);
+  });
+
+  it("hides the ids of unseen shooters behind Core damage", () => {
+    // A2 is gone, so B2 has a clear lane to Core A from out of sight
+    const initial = createInitialState(createRules({ visibility: VisibilityMode.Radius, visionRadius: 1 }));
+    const state = { ...initial, quantars: initial.quantars.filter((q) => q.id !== "A2") };
+    const actionsB: Action[] = [
+      { type: ActionType.Pulse, quantarId: "B2", direction: Direction.South },
+      ...shields(["B1", "B3"]),
+    ];
+    const { log } = resolveTurn({ state, actionsA: shields(["A1", "A3"]), actionsB });
+    const seenByA = filterLogForPlayer(log, Player.A, state);
+
+    const damage = seenByA.events.find((e) => e.type === EventType.DamageApplied);
+    expect(damage).toMatchObject({ targetId: "core_A", sources: [{ quantarId: HIDDEN_QUANTAR_ID, damage: 1 }] });
+    expect(JSON.stringify(seenByA)).not.toContain('"B2"');
+  });
+});